@@ -0,0 +1,89 @@
+// Service worker: keeps the app shell cached so the app opens offline, and
+// handles timer notifications. It only touches the Cache Storage API; task
+// data lives in IndexedDB (or localStorage) and is never read or changed here.
+
+// The production build writes the list of files to cache into
+// precache-manifest.js. The dev server has none, so nothing is cached there.
+try {
+  importScripts('precache-manifest.js');
+} catch {
+  // Running under the dev server
+}
+
+const PRECACHE = self.__PRECACHE_MANIFEST || null;
+const CACHE_PREFIX = 'pomodoro-shell-';
+const CACHE_NAME = PRECACHE ? `${CACHE_PREFIX}${PRECACHE.version}` : null;
+
+self.addEventListener('install', event => {
+  if (!CACHE_NAME) {
+    self.skipWaiting();
+    return;
+  }
+  // A new version waits until the page agrees to switch, see 'skip-waiting'
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(cache => cache.addAll(['./', ...PRECACHE.files]))
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'skip-waiting') {
+    self.skipWaiting();
+  }
+});
+
+// Pages come from the cached shell straight away. Other files are served
+// from the cache when they are part of the shell and from the network
+// otherwise.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (!CACHE_NAME || request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.open(CACHE_NAME)
+        .then(cache => cache.match('./'))
+        .then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.match(request))
+      .then(cached => cached || fetch(request))
+  );
+});
+
+const focusApp = async () => {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const client = windows.find(candidate => candidate.url.startsWith(self.registration.scope)) || windows[0];
+  if (client) return client.focus();
+  return self.clients.openWindow(self.registration.scope);
+};
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const action = event.action;
+
+  event.waitUntil(
+    focusApp().then(client => {
+      if (client && action) {
+        client.postMessage({ type: 'notification-action', action });
+      }
+    })
+  );
+});
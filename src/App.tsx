@@ -1,394 +1,799 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Play, Pause, RotateCcw, Settings, Check, X, Plus, Trash2, CreditCard as Edit3, ChevronLeft, ChevronRight, List, Focus, Square } from 'lucide-react';
-
-// Storage keys
-const STORAGE_KEYS = {
-  TASKS: 'pomodoro_tasks',
-  CURRENT_TASK_INDEX: 'pomodoro_current_task_index',
-  SETTINGS: 'pomodoro_settings',
-  SESSION_DATA: 'pomodoro_session_data'
+import { useState, useEffect, useCallback, useReducer } from 'react';
+import { Settings, X, Plus, List, Focus, BarChart3, Filter, NotebookPen } from 'lucide-react';
+import type { PauseInterval, PendingTransition, SessionKind, SessionOutcome, SessionRecord, SoundSettings, TagColor, TagDefinition, Task, TimerSettings } from './types';
+import { AUTO_TRANSITION_SECONDS, endSession } from './lib/sessionAccounting';
+import { finishSession, isSessionPaused } from './lib/sessionHistory';
+import { INTERRUPTION_TYPES } from './lib/interruptions';
+import { withSessionNote } from './lib/journal';
+import { listenForNotificationActions, type NotificationAction, notificationsSupported, requestNotificationPermission, showNotification } from './lib/notifications';
+import { applyUpdate, registerServiceWorker, watchForUpdate } from './lib/serviceWorker';
+import { eventToCombo, findShortcutAction, formatCombo, GLOBAL_SHORTCUTS, isTypingTarget, parseShortcuts, SHORTCUT_ACTIONS, type ShortcutAction, type ShortcutBindings } from './lib/shortcuts';
+import { type StateStore, STORAGE_KEYS, type StorageProblem } from './lib/storage';
+import { supabase } from './lib/supabase';
+import { sendToLeader, shareState } from './lib/tabs';
+import type { SyncSnapshot, SyncState } from './lib/sync';
+import { toDayKey } from './lib/stats';
+import { parseSoundSettings, playChime, setMasterVolume, startFocusLoop } from './lib/sound';
+import { getSessionEndTime, runCountdown, runTimer } from './lib/timerEngine';
+import { isBreakPhase, isTimerRunning, restoreTimerState, type TimerAction, timerReducer, type TimerState } from './lib/timerMachine';
+import { getCurrentTask, type TaskAction, taskReducer, type TaskState } from './lib/taskStore';
+import { areAllSubtasksDone, findActiveTaskIndex, findAdjacentTaskIndex, toggleSubtask } from './lib/tasks';
+import { applyBackup, type BackupData, createBackup, type ImportMode, parseBackup } from './lib/backup';
+import { downloadFile, fileDateStamp } from './lib/download';
+import { EMPTY_TASK_FILTER, isTaskFilterActive, matchesTaskFilter, type TaskFilter, type TaskGrouping } from './lib/taskFilter';
+import { findTag, renameTagInRegistry, syncTagRegistry } from './lib/tags';
+import { getEffectiveProfile, getFocusMinutes, parseTimerSettings, TIMER_PROFILES } from './lib/timerProfiles';
+import AmbientBackground from './components/AmbientBackground';
+import CommandPalette, { type PaletteCommand } from './components/CommandPalette';
+import GoalRing from './components/GoalRing';
+import JournalView from './components/JournalView';
+import SettingsView from './components/SettingsView';
+import ShortcutHelp from './components/ShortcutHelp';
+import StatsView from './components/StatsView';
+import TaskCard from './components/TaskCard';
+import TaskForm, { type TaskDraft } from './components/TaskForm';
+import TaskList, { type TaskListView } from './components/TaskList';
+import TimerControls from './components/TimerControls';
+import TimerDisplay from './components/TimerDisplay';
+import { useCloudSync } from './hooks/useCloudSync';
+import { useDayStart, useGoalProgress } from './hooks/useGoals';
+import { useTabMessages, useTabRole } from './hooks/useTabs';
+
+// Length of the "+5 min" notification action
+const EXTEND_MINUTES = 5;
+
+const STORAGE_PROBLEM_MESSAGES: Record<StorageProblem, string> = {
+  quota: 'Storage is full, recent changes are not saved',
+  unavailable: 'Storage is unavailable, changes are lost on reload',
+  failed: 'Recent changes could not be saved'
 };
 
-// Helper functions for localStorage
-const saveToStorage = (key: string, data: any) => {
-  try {
-    localStorage.setItem(key, JSON.stringify(data));
-  } catch (error) {
-    console.warn('Failed to save to localStorage:', error);
-  }
-};
-
-const loadFromStorage = (key: string, defaultValue: any = null) => {
-  try {
-    const item = localStorage.getItem(key);
-    return item ? JSON.parse(item) : defaultValue;
-  } catch (error) {
-    console.warn('Failed to load from localStorage:', error);
-    return defaultValue;
-  }
-};
-
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  duration: number; // in minutes
-  completed: boolean;
-  sessions: number;
-  weightage: 'low' | 'medium' | 'high' | 'critical';
-  tags: string[];
+// Focus sessions completed on `day`, a day key
+interface SessionCount {
+  completedSessions: number;
+  day: string;
 }
 
-function App() {
-  // Initialize state from localStorage - no predefined tasks
-  const [tasks, setTasks] = useState<Task[]>(() => 
-    loadFromStorage(STORAGE_KEYS.TASKS, [])
-  );
+// A change a follower tab asks the leading tab to make
+type TabCommand = { target: 'timer'; action: TimerAction } | { target: 'tasks'; action: TaskAction };
 
-  const [currentTaskIndex, setCurrentTaskIndex] = useState(() => 
-    loadFromStorage(STORAGE_KEYS.CURRENT_TASK_INDEX, 0)
+const SESSION_KIND_LABELS: Record<SessionKind, string> = {
+  focus: 'Focus session',
+  short_break: 'Short break',
+  long_break: 'Long break'
+};
+
+function App({ storage }: { storage: StateStore }) {
+  // Initialize state from storage - no predefined tasks
+  const [taskState, dispatchTasks] = useReducer(taskReducer, storage, (store: StateStore): TaskState => ({
+    tasks: store.get<Task[]>(STORAGE_KEYS.TASKS, []),
+    currentTaskIndex: store.get(STORAGE_KEYS.CURRENT_TASK_INDEX, 0)
+  }));
+  const { tasks, currentTaskIndex } = taskState;
+
+  // Tag registry with a color per tag
+  const [tagRegistry, setTagRegistry] = useState<TagDefinition[]>(() =>
+    storage.get<TagDefinition[]>(STORAGE_KEYS.TAGS, [])
   );
   
-  const [timeLeft, setTimeLeft] = useState(0);
-  const [isActive, setIsActive] = useState(false);
-  const [isBreak, setIsBreak] = useState(false);
-  const [breakType, setBreakType] = useState<'short' | 'long'>('short');
-  const [completedSessions, setCompletedSessions] = useState(() => 
-    loadFromStorage(STORAGE_KEYS.SESSION_DATA, { completedSessions: 0 }).completedSessions
+  // Timer state machine, restored from the last visit
+  const [timer, dispatchTimer] = useReducer(timerReducer, storage, (store: StateStore) =>
+    restoreTimerState(store.get<Partial<TimerState>>(STORAGE_KEYS.TIMER_STATE, {}))
+  );
+  const { phase: timerPhase, activeSession, breakType, timeLeft, pendingTransition, notePromptSessionId } = timer;
+  const isActive = isTimerRunning(timer);
+  const isBreak = isBreakPhase(timer);
+  // Counts saved before days were tracked have no day and start over
+  const [sessionCount, setSessionCount] = useState<SessionCount>(() =>
+    storage.get(STORAGE_KEYS.SESSION_DATA, { completedSessions: 0, day: '' })
   );
+
+  // Session history log
+  const [sessionHistory, setSessionHistory] = useState<SessionRecord[]>(() =>
+    storage.get<SessionRecord[]>(STORAGE_KEYS.SESSION_HISTORY, [])
+  );
+
+  // Seconds left before the pending automatic step
+  const [transitionCountdown, setTransitionCountdown] = useState(0);
   
   const [showSettings, setShowSettings] = useState(false);
   const [showTaskForm, setShowTaskForm] = useState(false);
   const [showTaskList, setShowTaskList] = useState(false);
-  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [showJournal, setShowJournal] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+
+  // Note being written for the session the break screen asks about
+  const [sessionNoteDraft, setSessionNoteDraft] = useState('');
+  // Interruption note being typed, null while the shared one is shown. It is
+  // sent when the input loses focus, so keystrokes are not lost to a state
+  // update coming back from the leading tab.
+  const [pauseNoteDraft, setPauseNoteDraft] = useState<string | null>(null);
+  const [taskListView, setTaskListView] = useState<TaskListView>('active');
+
+  // Task list filter, which also limits the previous/next rotation
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>(EMPTY_TASK_FILTER);
+  const [taskGrouping, setTaskGrouping] = useState<TaskGrouping>('none');
+  const [editingTask, setEditingTask] = useState<Task | null>(null); // null while adding a task
 
   // Settings
-  const [shortBreakTime, setShortBreakTime] = useState(() => 
-    loadFromStorage(STORAGE_KEYS.SETTINGS, { shortBreakTime: 5 }).shortBreakTime
+  const [timerSettings, setTimerSettings] = useState<TimerSettings>(() =>
+    parseTimerSettings(storage.get<Record<string, unknown> | null>(STORAGE_KEYS.SETTINGS, null))
   );
-  
-  const [longBreakTime, setLongBreakTime] = useState(() => 
-    loadFromStorage(STORAGE_KEYS.SETTINGS, { longBreakTime: 15 }).longBreakTime
+
+  // Sound preferences stay on this device and are not part of backups
+  const [soundSettings, setSoundSettings] = useState<SoundSettings>(() =>
+    parseSoundSettings(storage.get<Record<string, unknown> | null>(STORAGE_KEYS.SOUND, null))
   );
-  
-  const [sessionsUntilLongBreak, setSessionsUntilLongBreak] = useState(() => 
-    loadFromStorage(STORAGE_KEYS.SETTINGS, { sessionsUntilLongBreak: 4 }).sessionsUntilLongBreak
+  // Start of the current day, which begins at the configured hour
+  const dayStartHour = timerSettings.dayStartHour;
+  const dayStart = useDayStart(dayStartHour);
+  const [warnedSessionId, setWarnedSessionId] = useState<string | null>(null);
+
+  // Desktop notifications are opt-in from Settings
+  const [notificationsEnabled, setNotificationsEnabled] = useState<boolean>(() =>
+    storage.get(STORAGE_KEYS.NOTIFICATIONS, false)
+  );
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(() =>
+    notificationsSupported() ? Notification.permission : 'denied'
   );
 
-  // Form state
-  const [taskTitle, setTaskTitle] = useState('');
-  const [taskDescription, setTaskDescription] = useState('');
-  const [taskDuration, setTaskDuration] = useState(25);
-  const [taskWeightage, setTaskWeightage] = useState<'low' | 'medium' | 'high' | 'critical'>('medium');
-  const [taskTags, setTaskTags] = useState('');
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [storageProblem, setStorageProblem] = useState<StorageProblem | null>(() => storage.problem());
+  const [storageProblemDismissed, setStorageProblemDismissed] = useState(false);
 
-  const currentTask = tasks[currentTaskIndex] || null;
-  const nextTask = tasks[currentTaskIndex + 1] || null;
+  // With several tabs open, only the leading one runs the timer, plays
+  // sounds, syncs and saves. The others mirror it.
+  const isLeader = useTabRole(storage);
 
-  // Enhanced notification sounds
-  const playBreakStartSound = useCallback(() => {
-    try {
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-      
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-      
-      // Gentle descending chime for break start
-      oscillator.frequency.setValueAtTime(800, audioContext.currentTime);
-      oscillator.frequency.setValueAtTime(600, audioContext.currentTime + 0.15);
-      oscillator.frequency.setValueAtTime(500, audioContext.currentTime + 0.3);
-      
-      gainNode.gain.setValueAtTime(0.2, audioContext.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5);
-      
-      oscillator.start(audioContext.currentTime);
-      oscillator.stop(audioContext.currentTime + 0.5);
-    } catch (error) {
-      console.warn('Could not play break start sound:', error);
-    }
-  }, []);
+  // Keyboard shortcuts, rebindable in Settings
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(() =>
+    parseShortcuts(storage.get<Record<string, unknown> | null>(STORAGE_KEYS.SHORTCUTS, null))
+  );
 
-  const playFocusStartSound = useCallback(() => {
-    try {
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-      
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-      
-      // Energetic ascending chime for focus start
-      oscillator.frequency.setValueAtTime(400, audioContext.currentTime);
-      oscillator.frequency.setValueAtTime(600, audioContext.currentTime + 0.1);
-      oscillator.frequency.setValueAtTime(800, audioContext.currentTime + 0.2);
-      oscillator.frequency.setValueAtTime(1000, audioContext.currentTime + 0.3);
-      
-      gainNode.gain.setValueAtTime(0.25, audioContext.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.4);
-      
-      oscillator.start(audioContext.currentTime);
-      oscillator.stop(audioContext.currentTime + 0.4);
-    } catch (error) {
-      console.warn('Could not play focus start sound:', error);
-    }
-  }, []);
+  // Backup import waiting for a merge or replace choice
+  const [pendingImport, setPendingImport] = useState<BackupData | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Task whose checklist was just finished, waiting for a "mark done?" answer
+  const [completionPromptTaskId, setCompletionPromptTaskId] = useState<string | null>(null);
+
+  // The session count starts over every day
+  const today = toDayKey(dayStart, dayStartHour);
+  const completedSessions = sessionCount.day === today ? sessionCount.completedSessions : 0;
+  const setCompletedSessions = (count: number) => setSessionCount({ completedSessions: count, day: today });
+
+  // Completed tasks sit in the archive and are skipped by the rotation
+  const activeTasks = tasks.filter(task => !task.completed);
+  const archivedTasks = tasks.filter(task => task.completed);
+  const currentTask = getCurrentTask(taskState);
+  const filterActive = isTaskFilterActive(taskFilter);
+  const inRotation = (task: Task) => matchesTaskFilter(task, taskFilter);
+  const previousTaskIndex = findAdjacentTaskIndex(tasks, currentTaskIndex, -1, inRotation);
+  const nextTaskIndex = findAdjacentTaskIndex(tasks, currentTaskIndex, 1, inRotation);
+  const nextTask = tasks[nextTaskIndex] || null;
+
+  // Timer lengths come from the current task's own profile, or the active one
+  const timerProfile = getEffectiveProfile(timerSettings, currentTask);
+  const focusTime = getFocusMinutes(timerProfile, currentTask);
+  const shortBreakTime = timerProfile.shortBreakMinutes;
+  const longBreakTime = timerProfile.longBreakMinutes;
+  const focusSession = activeSession?.kind === 'focus' ? activeSession : null;
+  const currentPause = focusSession && isSessionPaused(focusSession)
+    ? focusSession.pauses[focusSession.pauses.length - 1]
+    : null;
+  const currentPauseStart = currentPause?.start ?? null;
+  const pendingNextTask = pendingTransition?.nextTaskId
+    ? tasks.find(task => task.id === pendingTransition.nextTaskId)
+    : undefined;
+
+  // Followers hand timer and task changes to the leading tab, which owns both
+  const updateTimer = (action: TimerAction) => {
+    const command: TabCommand = { target: 'timer', action };
+    if (!sendToLeader(command)) dispatchTimer(action);
+  };
+  const updateTasks = (action: TaskAction) => {
+    const command: TabCommand = { target: 'tasks', action };
+    if (!sendToLeader(command)) dispatchTasks(action);
+  };
 
-  // Initialize timer when current task changes or when not active
+  // Show the focus length for the current task until a session starts
   useEffect(() => {
-    if (currentTask && !isBreak && timeLeft === 0) {
-      setTimeLeft(currentTask.duration * 60);
-    }
-  }, [currentTask, isBreak, timeLeft]);
+    if (isLeader && currentTask && !isBreak && !activeSession) dispatchTimer({ type: 'prepare', seconds: focusTime * 60 });
+  }, [isLeader, currentTask, focusTime, isBreak, activeSession]);
 
-  // Update timer when current task duration changes
+  // Save to storage and tell the other tabs. Everything saved during one
+  // render is written in a single transaction.
   useEffect(() => {
-    if (currentTask && !isBreak && !isActive) {
-      setTimeLeft(currentTask.duration * 60);
-    }
-  }, [currentTask?.duration, isBreak, isActive]);
+    storage.setMany({
+      [STORAGE_KEYS.TASKS]: taskState.tasks,
+      [STORAGE_KEYS.CURRENT_TASK_INDEX]: taskState.currentTaskIndex
+    });
+    if (isLeader) shareState(STORAGE_KEYS.TASKS, taskState);
+  }, [taskState, storage, isLeader]);
 
-  // Save to localStorage
+  // Tags typed on tasks are registered automatically
   useEffect(() => {
-    saveToStorage(STORAGE_KEYS.TASKS, tasks);
+    setTagRegistry(prev => syncTagRegistry(prev, tasks));
   }, [tasks]);
 
   useEffect(() => {
-    saveToStorage(STORAGE_KEYS.CURRENT_TASK_INDEX, currentTaskIndex);
-  }, [currentTaskIndex]);
+    storage.set(STORAGE_KEYS.TAGS, tagRegistry);
+    shareState(STORAGE_KEYS.TAGS, tagRegistry);
+  }, [tagRegistry, storage]);
+
+  useEffect(() => {
+    storage.set(STORAGE_KEYS.SESSION_DATA, sessionCount);
+    shareState(STORAGE_KEYS.SESSION_DATA, sessionCount);
+  }, [sessionCount, storage]);
+
+  const goalProgress = useGoalProgress(sessionHistory, timerSettings, dayStart);
 
   useEffect(() => {
-    saveToStorage(STORAGE_KEYS.SESSION_DATA, { completedSessions });
-  }, [completedSessions]);
+    storage.set(STORAGE_KEYS.SESSION_HISTORY, sessionHistory);
+    shareState(STORAGE_KEYS.SESSION_HISTORY, sessionHistory);
+  }, [sessionHistory, storage]);
 
   useEffect(() => {
-    saveToStorage(STORAGE_KEYS.SETTINGS, {
-      shortBreakTime,
-      longBreakTime,
-      sessionsUntilLongBreak
+    storage.set(STORAGE_KEYS.TIMER_STATE, timer);
+    if (isLeader) shareState(STORAGE_KEYS.TIMER_STATE, timer);
+  }, [timer, storage, isLeader]);
+
+  useEffect(() => {
+    storage.set(STORAGE_KEYS.SETTINGS, timerSettings);
+    shareState(STORAGE_KEYS.SETTINGS, timerSettings);
+  }, [timerSettings, storage]);
+
+  useEffect(() => {
+    storage.set(STORAGE_KEYS.SOUND, soundSettings);
+    shareState(STORAGE_KEYS.SOUND, soundSettings);
+    setMasterVolume(soundSettings);
+  }, [soundSettings, storage]);
+
+  // Background loop while a focus session is running
+  useEffect(() => {
+    if (!isLeader || timerPhase !== 'focus') return;
+    return startFocusLoop(soundSettings.focusLoop);
+  }, [isLeader, timerPhase, soundSettings.focusLoop]);
+
+  // Warning chime a few minutes before a focus session ends, once per session
+  useEffect(() => {
+    const warningSeconds = soundSettings.warningMinutes * 60;
+    if (
+      isLeader &&
+      warningSeconds > 0 &&
+      isActive &&
+      focusSession &&
+      focusSession.id !== warnedSessionId &&
+      focusSession.plannedDuration > warningSeconds &&
+      timeLeft > 0 &&
+      timeLeft <= warningSeconds
+    ) {
+      setWarnedSessionId(focusSession.id);
+      playChime(soundSettings.chime, 'warning');
+    }
+  }, [isLeader, isActive, focusSession, warnedSessionId, timeLeft, soundSettings.warningMinutes, soundSettings.chime]);
+
+  // Append the session in progress to the history log. The timer action
+  // that follows clears it from the timer.
+  const recordSession = (outcome: SessionOutcome, endedAt: number = Date.now()) => {
+    if (!activeSession) return;
+    const record = finishSession(activeSession, outcome, endedAt);
+    setSessionHistory(prev => [...prev, record]);
+  };
+
+  // Count down the running session against the wall clock. Followers get
+  // the time left from the leader.
+  useEffect(() => {
+    if (!isLeader || !isActive || !activeSession) return;
+    return runTimer(activeSession, { onTick: seconds => dispatchTimer({ type: 'tick', timeLeft: seconds }) });
+  }, [isLeader, isActive, activeSession]);
+
+  // Carry out an automatic step
+  const applyTransition = useCallback((transition: PendingTransition) => {
+    if (transition.nextTaskId) dispatchTasks({ type: 'selectTask', taskId: transition.nextTaskId });
+    dispatchTimer({ type: 'applyTransition', transition, now: Date.now() });
+  }, []);
+
+  useEffect(() => {
+    if (!pendingTransition) return;
+    return runCountdown(pendingTransition.dueAt, {
+      onTick: setTransitionCountdown,
+      // Followers only show the countdown
+      onComplete: isLeader ? () => applyTransition(pendingTransition) : undefined
     });
-  }, [shortBreakTime, longBreakTime, sessionsUntilLongBreak]);
+  }, [isLeader, pendingTransition, applyTransition]);
 
-  // Timer logic
+  // Settle a session that ran to zero
   useEffect(() => {
-    let interval: number | undefined;
-
-    if (isActive && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft((time) => time - 1);
-      }, 1000);
-    } else if (timeLeft === 0 && isActive) {
-      if (!isBreak && currentTask) {
-        // Work session completed - start break
-        const newCompletedSessions = completedSessions + 1;
-        setCompletedSessions(newCompletedSessions);
-        
-        // Update task sessions
-        setTasks(prev => prev.map(task => 
-          task.id === currentTask.id 
-            ? { ...task, sessions: task.sessions + 1 }
-            : task
-        ));
-
-        // Start break
-        const nextBreakType = newCompletedSessions % sessionsUntilLongBreak === 0 ? 'long' : 'short';
-        setBreakType(nextBreakType);
-        setIsBreak(true);
-        setTimeLeft(nextBreakType === 'short' ? shortBreakTime * 60 : longBreakTime * 60);
-        
-        // Play break start sound and show notification
-        playBreakStartSound();
-        if ('Notification' in window && Notification.permission === 'granted') {
-          new Notification('Focus session complete!', {
-            body: `Time for a ${nextBreakType} break`,
-            icon: '/vite.svg'
-          });
-        }
-      } else {
-        // Break completed - return to focus
-        setIsBreak(false);
-        setIsActive(false);
-        if (currentTask) {
-          setTimeLeft(currentTask.duration * 60);
-        }
-        
-        // Play focus start sound and show notification
-        playFocusStartSound();
-        if ('Notification' in window && Notification.permission === 'granted') {
-          new Notification('Break complete!', {
-            body: 'Ready for your next focus session?',
-            icon: '/vite.svg'
-          });
-        }
-      }
+    if (!isLeader || timeLeft !== 0 || !isActive || !activeSession) return;
+    // Credit the session at the moment it was due to end, even if the tab
+    // was asleep and we only notice now
+    const end = endSession({
+      session: activeSession,
+      endedAt: getSessionEndTime(activeSession),
+      tasks,
+      currentTask,
+      nextTask,
+      completedSessions,
+      settings: timerSettings
+    });
+    setSessionHistory(prev => [...prev, end.record]);
+    setSessionCount({ completedSessions: end.completedSessions, day: today });
+    end.taskActions.forEach(action => dispatchTasks(action));
+    dispatchTimer(end.timerAction);
+
+    playChime(soundSettings.chime, end.chime);
+    if (notificationsEnabled) {
+      showNotification(end.notification.title, end.notification.body, end.notification.actions);
     }
+  }, [
+    isLeader,
+    timeLeft,
+    isActive,
+    activeSession,
+    tasks,
+    currentTask,
+    nextTask,
+    completedSessions,
+    today,
+    timerSettings,
+    soundSettings.chime,
+    notificationsEnabled
+  ]);
+
+  // Every tab starts an empty note when a new session asks for one
+  useEffect(() => {
+    setSessionNoteDraft('');
+  }, [notePromptSessionId]);
 
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isActive, timeLeft, isBreak, currentTask, completedSessions, shortBreakTime, longBreakTime, sessionsUntilLongBreak, breakType, playBreakStartSound, playFocusStartSound]);
+  // A draft left over from a pause that ended belongs to no pause
+  useEffect(() => {
+    setPauseNoteDraft(null);
+  }, [currentPauseStart]);
+
+  useEffect(() => storage.subscribe(problem => {
+    setStorageProblem(problem);
+    setStorageProblemDismissed(false);
+  }), [storage]);
+
+  useEffect(() => {
+    storage.set(STORAGE_KEYS.NOTIFICATIONS, notificationsEnabled);
+    shareState(STORAGE_KEYS.NOTIFICATIONS, notificationsEnabled);
+  }, [notificationsEnabled, storage]);
+
+  useEffect(() => {
+    storage.set(STORAGE_KEYS.SHORTCUTS, shortcuts);
+    shareState(STORAGE_KEYS.SHORTCUTS, shortcuts);
+  }, [shortcuts, storage]);
+
+  // Stay on the same task even if remote changes moved it
+  const applyRemoteSnapshot = (snapshot: SyncSnapshot) => {
+    const currentId = tasks[currentTaskIndex]?.id;
+    const movedIndex = snapshot.tasks.findIndex(task => task.id === currentId);
+    dispatchTasks({
+      type: 'replace',
+      tasks: snapshot.tasks,
+      currentTaskIndex: findActiveTaskIndex(snapshot.tasks, movedIndex === -1 ? currentTaskIndex : movedIndex)
+    });
+    setSessionHistory(snapshot.sessionHistory);
+    setTimerSettings(snapshot.settings);
+    setTagRegistry(snapshot.tags);
+  };
 
-  // Request notification permission
+  const sync = useCloudSync({
+    storage,
+    isLeader,
+    snapshot: { tasks, sessionHistory, settings: timerSettings, tags: tagRegistry },
+    onRemoteChanges: applyRemoteSnapshot
+  });
+
+  // Subscribed again on every render so shortcuts always act on current state
   useEffect(() => {
-    if ('Notification' in window && Notification.permission === 'default') {
-      Notification.requestPermission();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const combo = eventToCombo(event);
+      const action = combo ? findShortcutAction(shortcuts, combo) : null;
+      if (!action) return;
+      if (!GLOBAL_SHORTCUTS.includes(action) && (isTypingTarget(event.target) || anyModalOpen)) return;
+      event.preventDefault();
+      runShortcut(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Take over state from the leader, or on the leader from followers
+  const applySharedState = (key: string, value: unknown) => {
+    switch (key) {
+      case STORAGE_KEYS.TASKS:
+        dispatchTasks({ type: 'replace', ...(value as TaskState) });
+        break;
+      case STORAGE_KEYS.TIMER_STATE:
+        dispatchTimer({ type: 'replace', state: value as TimerState });
+        break;
+      case STORAGE_KEYS.TAGS:
+        setTagRegistry(value as TagDefinition[]);
+        break;
+      case STORAGE_KEYS.SESSION_DATA:
+        setSessionCount(value as SessionCount);
+        break;
+      case STORAGE_KEYS.SESSION_HISTORY:
+        setSessionHistory(value as SessionRecord[]);
+        break;
+      case STORAGE_KEYS.SETTINGS:
+        setTimerSettings(value as TimerSettings);
+        break;
+      case STORAGE_KEYS.SOUND:
+        setSoundSettings(value as SoundSettings);
+        break;
+      case STORAGE_KEYS.NOTIFICATIONS:
+        setNotificationsEnabled(value as boolean);
+        break;
+      case STORAGE_KEYS.SHORTCUTS:
+        setShortcuts(value as ShortcutBindings);
+        break;
+      case STORAGE_KEYS.SYNC:
+        sync.setState(value as SyncState);
+        break;
     }
+  };
+
+  // Bring newly opened tabs up to date with every slice of shared state
+  useTabMessages<TabCommand>({
+    shared: {
+      [STORAGE_KEYS.TASKS]: taskState,
+      [STORAGE_KEYS.TIMER_STATE]: timer,
+      [STORAGE_KEYS.TAGS]: tagRegistry,
+      [STORAGE_KEYS.SESSION_DATA]: sessionCount,
+      [STORAGE_KEYS.SESSION_HISTORY]: sessionHistory,
+      [STORAGE_KEYS.SETTINGS]: timerSettings,
+      [STORAGE_KEYS.SOUND]: soundSettings,
+      [STORAGE_KEYS.NOTIFICATIONS]: notificationsEnabled,
+      [STORAGE_KEYS.SHORTCUTS]: shortcuts,
+      [STORAGE_KEYS.SYNC]: sync.state
+    },
+    onState: applySharedState,
+    onCommand: command => {
+      if (command.target === 'timer') dispatchTimer(command.action);
+      else dispatchTasks(command.action);
+    }
+  });
+
+  // The service worker keeps the app usable offline and tells us when a new
+  // version is ready
+  useEffect(() => {
+    registerServiceWorker();
+    return watchForUpdate(() => setUpdateAvailable(true));
   }, []);
 
+  // Subscribed again on every render so the handler always sees current state
+  useEffect(() => listenForNotificationActions(handleNotificationAction));
+
   const totalTime = isBreak 
     ? (breakType === 'short' ? shortBreakTime * 60 : longBreakTime * 60)
-    : (currentTask?.duration || 25) * 60;
-  const progress = timeLeft > 0 ? ((totalTime - timeLeft) / totalTime) * 100 : 0;
+    : focusTime * 60;
+  // A running session may have been extended past the usual length
+  const progressTotal = activeSession?.plannedDuration ?? totalTime;
+  const progress = timeLeft > 0 ? ((progressTotal - timeLeft) / progressTotal) * 100 : 0;
 
   const startTimer = () => {
     if (!currentTask && !isBreak) return;
-    setIsActive(true);
+    if (activeSession) {
+      updateTimer({ type: 'resume', now: Date.now() });
+    } else {
+      updateTimer({
+        type: 'start',
+        taskId: currentTask?.id ?? null,
+        plannedDuration: totalTime,
+        now: Date.now()
+      });
+    }
   };
 
   const toggleTimer = () => {
-    setIsActive(!isActive);
+    if (isActive) {
+      updateTimer({ type: 'pause', now: Date.now() });
+    } else {
+      startTimer();
+    }
   };
 
-  const resetTimer = () => {
-    setIsActive(false);
-    if (isBreak) {
-      setTimeLeft(breakType === 'short' ? shortBreakTime * 60 : longBreakTime * 60);
-    } else if (currentTask) {
-      setTimeLeft(currentTask.duration * 60);
+  // Note what interrupted the focus session while it is paused
+  const annotateCurrentPause = (details: Pick<PauseInterval, 'interruption' | 'note'>) => {
+    updateTimer({ type: 'annotatePause', details });
+  };
+
+  const savePauseNote = () => {
+    if (pauseNoteDraft === null) return;
+    annotateCurrentPause({ note: pauseNoteDraft || undefined });
+    setPauseNoteDraft(null);
+  };
+
+  const saveSessionNote = () => {
+    if (notePromptSessionId) {
+      setSessionHistory(prev => withSessionNote(prev, notePromptSessionId, sessionNoteDraft));
     }
+    updateTimer({ type: 'dismissNotePrompt' });
+  };
+
+  const resetTimer = () => {
+    recordSession('reset');
+    updateTimer({ type: 'reset', seconds: isBreak || currentTask ? totalTime : null });
   };
 
   const stopSession = () => {
-    setIsActive(false);
-    setIsBreak(false);
-    if (currentTask) {
-      setTimeLeft(currentTask.duration * 60);
+    recordSession('stopped');
+    updateTimer({ type: 'stop', seconds: currentTask ? focusTime * 60 : null });
+  };
+
+  // Stop whatever is running before switching to another task
+  const leaveSession = () => {
+    recordSession('stopped');
+    updateTimer({ type: 'stop', seconds: null });
+  };
+
+  // Buttons pressed on a desktop notification
+  const handleNotificationAction = (action: NotificationAction) => {
+    if (action === 'start-break') {
+      if (timerPhase === 'break_ready') startTimer();
+    } else if (action === 'skip-break') {
+      if (isBreak) stopSession();
+    } else if (action === 'extend') {
+      updateTimer({ type: 'extend', seconds: EXTEND_MINUTES * 60, taskId: currentTask?.id ?? null, now: Date.now() });
+    } else {
+      // Start focusing on the next task straight away, through the same path
+      // as an automatic transition with nothing left to count down
+      const target = nextTask ?? currentTask;
+      if (!target) return;
+      leaveSession();
+      updateTimer({
+        type: 'schedule',
+        transition: {
+          dueAt: Date.now(),
+          session: {
+            kind: 'focus',
+            taskId: target.id,
+            plannedDuration: getFocusMinutes(getEffectiveProfile(timerSettings, target), target) * 60
+          },
+          nextTaskId: target.id
+        }
+      });
     }
   };
 
+  const anyModalOpen = showSettings || showTaskForm || showTaskList || showStats || showJournal ||
+    showCommandPalette || showShortcutHelp;
+
+  // Close the dialog on top, one per key press
+  const closeTopModal = () => {
+    if (showCommandPalette) setShowCommandPalette(false);
+    else if (showShortcutHelp) setShowShortcutHelp(false);
+    else if (showTaskForm) closeTaskForm();
+    else if (showTaskList) setShowTaskList(false);
+    else if (pendingImport) setPendingImport(null);
+    else if (showSettings) setShowSettings(false);
+    else if (showStats) setShowStats(false);
+    else if (showJournal) setShowJournal(false);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    switch (action) {
+      case 'toggleTimer':
+        if (currentTask || isBreak) toggleTimer();
+        break;
+      case 'resetTimer':
+        if (timeLeft > 0 || isActive) resetTimer();
+        break;
+      case 'stopSession':
+        if (isActive) stopSession();
+        break;
+      case 'previousTask':
+        previousTaskHandler();
+        break;
+      case 'nextTask':
+        nextTaskHandler();
+        break;
+      case 'newTask':
+        openTaskForm();
+        break;
+      case 'openTaskList':
+        if (tasks.length > 0) setShowTaskList(true);
+        break;
+      case 'openStats':
+        setShowStats(true);
+        break;
+      case 'openJournal':
+        setShowJournal(true);
+        break;
+      case 'openSettings':
+        setShowSettings(true);
+        break;
+      case 'commandPalette':
+        setShowCommandPalette(prev => !prev);
+        break;
+      case 'showHelp':
+        setShowShortcutHelp(true);
+        break;
+      case 'closeModal':
+        closeTopModal();
+        break;
+    }
+  };
+
+  // Everything the command palette can do: the shortcut actions, then a
+  // jump to each open task
+  const paletteCommands: PaletteCommand[] = [
+    ...SHORTCUT_ACTIONS
+      .filter(({ action }) => !GLOBAL_SHORTCUTS.includes(action))
+      .map(({ action, label }) => ({
+        id: `action-${action}`,
+        label,
+        section: 'Actions' as const,
+        hint: shortcuts[action] ? formatCombo(shortcuts[action]) : undefined,
+        run: () => runShortcut(action)
+      })),
+    ...tasks
+      .map((task, index) => ({ task, index }))
+      .filter(({ task }) => !task.completed)
+      .map(({ task, index }) => ({
+        id: `task-${task.id}`,
+        label: task.title,
+        section: 'Tasks' as const,
+        hint: index === currentTaskIndex ? 'Current' : undefined,
+        run: () => selectTask(index)
+      }))
+  ];
+
+  const toggleNotifications = async (enabled: boolean) => {
+    if (!enabled) {
+      setNotificationsEnabled(false);
+      return;
+    }
+    const permission = await requestNotificationPermission();
+    setNotificationPermission(permission);
+    setNotificationsEnabled(permission === 'granted');
+  };
+
   const selectTask = (taskIndex: number) => {
-    setCurrentTaskIndex(taskIndex);
-    setIsActive(false);
-    setIsBreak(false);
+    leaveSession();
+    updateTasks({ type: 'select', index: taskIndex });
     setShowTaskList(false);
   };
 
   const nextTaskHandler = () => {
-    if (currentTaskIndex < tasks.length - 1) {
-      setCurrentTaskIndex(currentTaskIndex + 1);
-      setIsActive(false);
-      setIsBreak(false);
+    if (nextTaskIndex !== -1) {
+      leaveSession();
+      updateTasks({ type: 'select', index: nextTaskIndex });
     }
   };
 
   const previousTaskHandler = () => {
-    if (currentTaskIndex > 0) {
-      setCurrentTaskIndex(currentTaskIndex - 1);
-      setIsActive(false);
-      setIsBreak(false);
+    if (previousTaskIndex !== -1) {
+      leaveSession();
+      updateTasks({ type: 'select', index: previousTaskIndex });
     }
   };
 
-  const addTask = () => {
-    if (!taskTitle.trim()) return;
-    
-    const tagsArray = taskTags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
-    
-    const newTask: Task = {
-      id: Date.now().toString(),
-      title: taskTitle.trim(),
-      description: taskDescription.trim() || undefined,
-      duration: taskDuration,
-      completed: false,
-      sessions: 0,
-      weightage: taskWeightage,
-      tags: tagsArray
-    };
-
-    setTasks(prev => [...prev, newTask]);
-    
-    // If this is the first task, set it as current
-    if (tasks.length === 0) {
-      setCurrentTaskIndex(0);
+  const saveTask = (draft: TaskDraft) => {
+    if (editingTask) {
+      updateTasks({ type: 'update', taskId: editingTask.id, changes: draft });
+    } else {
+      updateTasks({
+        type: 'add',
+        task: { ...draft, id: Date.now().toString(), completed: false, sessions: 0 }
+      });
     }
-    
-    resetForm();
-  };
-
-  const updateTask = () => {
-    if (!editingTask || !taskTitle.trim()) return;
-    
-    const tagsArray = taskTags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
-    
-    setTasks(prev => prev.map(task => 
-      task.id === editingTask.id 
-        ? { 
-            ...task, 
-            title: taskTitle.trim(),
-            description: taskDescription.trim() || undefined,
-            duration: taskDuration,
-            weightage: taskWeightage,
-            tags: tagsArray
-          }
-        : task
-    ));
-    
-    resetForm();
+    closeTaskForm();
   };
 
   const deleteTask = (taskId: string) => {
-    const taskIndex = tasks.findIndex(task => task.id === taskId);
-    setTasks(prev => prev.filter(task => task.id !== taskId));
-    
-    if (taskIndex === currentTaskIndex && currentTaskIndex >= tasks.length - 1) {
-      setCurrentTaskIndex(Math.max(0, tasks.length - 2));
-    } else if (taskIndex < currentTaskIndex) {
-      setCurrentTaskIndex(currentTaskIndex - 1);
-    }
-    
-    setIsActive(false);
-    setIsBreak(false);
+    const wasCurrent = tasks.findIndex(task => task.id === taskId) === currentTaskIndex;
+    updateTasks({ type: 'delete', taskId });
+    // Deleting from the archive leaves the running session alone
+    if (wasCurrent) leaveSession();
+  };
+
+  const completeTask = (taskId: string) => {
+    const wasCurrent = tasks.findIndex(task => task.id === taskId) === currentTaskIndex;
+    updateTasks({ type: 'complete', taskId, now: Date.now() });
+    if (wasCurrent) leaveSession();
+  };
+
+  const restoreTask = (taskId: string) => {
+    updateTasks({ type: 'restore', taskId });
+  };
+
+  // Apply a new task order while keeping the same task selected
+  const reorderTasks = (reordered: Task[]) => {
+    updateTasks({ type: 'reorder', tasks: reordered });
+  };
+
+  // Renaming onto an existing tag merges the two everywhere
+  const renameTag = (from: string, to: string) => {
+    const existing = findTag(tagRegistry, to);
+    const name = existing && existing.name !== from ? existing.name : to.trim();
+    if (!name || name === from) return;
+
+    updateTasks({ type: 'renameTag', from, to: name });
+    setTagRegistry(prev => renameTagInRegistry(prev, from, name));
+    setTaskFilter(prev => ({
+      ...prev,
+      tags: Array.from(new Set(prev.tags.map(tag => (tag === from ? name : tag))))
+    }));
+  };
+
+  const recolorTag = (name: string, color: TagColor) => {
+    setTagRegistry(prev => prev.map(tag => (tag.name === name ? { ...tag, color } : tag)));
+  };
+
+  const deleteTag = (name: string) => {
+    updateTasks({ type: 'removeTag', name });
+    setTagRegistry(prev => prev.filter(tag => tag.name !== name));
+    setTaskFilter(prev => ({ ...prev, tags: prev.tags.filter(tag => tag !== name) }));
+  };
+
+  const toggleTaskSubtask = (taskId: string, subtaskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    updateTasks({ type: 'toggleSubtask', taskId, subtaskId });
+    setCompletionPromptTaskId(areAllSubtasksDone(toggleSubtask(task, subtaskId)) ? taskId : null);
   };
 
   const openTaskForm = (task?: Task) => {
-    if (task) {
-      setEditingTask(task);
-      setTaskTitle(task.title);
-      setTaskDescription(task.description || '');
-      setTaskDuration(task.duration);
-      setTaskWeightage(task.weightage);
-      setTaskTags(task.tags.join(', '));
-    } else {
-      resetForm();
-    }
+    setEditingTask(task ?? null);
     setShowTaskForm(true);
   };
 
-  const resetForm = () => {
+  const closeTaskForm = () => {
     setEditingTask(null);
-    setTaskTitle('');
-    setTaskDescription('');
-    setTaskDuration(25);
-    setTaskWeightage('medium');
-    setTaskTags('');
     setShowTaskForm(false);
   };
 
-  const getWeightageColor = (weightage: string) => {
-    switch (weightage) {
-      case 'low': return 'bg-green-500/20 text-green-300 border-green-400/30';
-      case 'medium': return 'bg-yellow-500/20 text-yellow-300 border-yellow-400/30';
-      case 'high': return 'bg-orange-500/20 text-orange-300 border-orange-400/30';
-      case 'critical': return 'bg-red-500/20 text-red-300 border-red-400/30';
-      default: return 'bg-gray-500/20 text-gray-300 border-gray-400/30';
+  const switchTimerProfile = (profileId: string) => {
+    setTimerSettings(prev => ({ ...prev, activeProfileId: profileId }));
+  };
+
+  const getBackupData = (): BackupData => ({
+    tasks,
+    currentTaskIndex,
+    settings: timerSettings,
+    completedSessions,
+    sessionHistory,
+    tags: tagRegistry
+  });
+
+  const exportData = () => {
+    const backup = createBackup(getBackupData());
+    downloadFile(`pomodoro-backup-${fileDateStamp()}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const readImportFile = async (file: File) => {
+    try {
+      setPendingImport(parseBackup(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setPendingImport(null);
+      setImportError(error instanceof Error ? error.message : 'Could not read backup');
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const importData = (mode: ImportMode) => {
+    if (!pendingImport) return;
+    const data = applyBackup(getBackupData(), pendingImport, mode);
+
+    if (mode === 'replace') {
+      // The running session may belong to a task that no longer exists
+      updateTimer({ type: 'clear' });
+    }
+
+    updateTasks({ type: 'replace', tasks: data.tasks, currentTaskIndex: data.currentTaskIndex });
+    setTimerSettings(data.settings);
+    setCompletedSessions(data.completedSessions);
+    setSessionHistory(data.sessionHistory);
+    setTagRegistry(data.tags);
+    setPendingImport(null);
   };
 
   return (
@@ -401,6 +806,52 @@ function App() {
         breakType={breakType}
       />
 
+      {/* Update prompt */}
+      {updateAvailable && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-3 bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-full pl-4 pr-2 py-2 shadow-2xl text-sm">
+          <span className="text-white/80">A new version is available</span>
+          <button
+            onClick={applyUpdate}
+            className="px-3 py-1 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 hover:bg-blue-500/30 transition-all duration-200 text-xs"
+          >
+            Reload
+          </button>
+          <button
+            onClick={() => setUpdateAvailable(false)}
+            className="w-6 h-6 rounded-full text-white/50 hover:text-white/80 flex items-center justify-center transition-all duration-200"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      {/* Storage problem */}
+      {storageProblem && !storageProblemDismissed && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-3 bg-gray-900/90 backdrop-blur-xl border border-red-400/30 rounded-full pl-4 pr-2 py-2 shadow-2xl text-sm max-w-[calc(100%-2rem)]">
+          <span className="text-red-200/90 truncate">{STORAGE_PROBLEM_MESSAGES[storageProblem]}</span>
+          {storageProblem !== 'unavailable' && (
+            <button
+              onClick={storage.retry}
+              className="px-3 py-1 rounded-full bg-white/5 border border-white/20 text-white/80 hover:bg-white/10 transition-all duration-200 text-xs shrink-0"
+            >
+              Retry
+            </button>
+          )}
+          <button
+            onClick={exportData}
+            className="px-3 py-1 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 hover:bg-blue-500/30 transition-all duration-200 text-xs shrink-0"
+          >
+            Export backup
+          </button>
+          <button
+            onClick={() => setStorageProblemDismissed(true)}
+            className="w-6 h-6 rounded-full text-white/50 hover:text-white/80 flex items-center justify-center transition-all duration-200 shrink-0"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
       {/* Top Controls */}
       <div className="absolute top-3 sm:top-4 right-3 sm:right-4 flex space-x-2 z-20">
         {tasks.length > 0 && (
@@ -411,6 +862,18 @@ function App() {
             <List size={14} className="sm:w-4 sm:h-4" />
           </button>
         )}
+        <button
+          onClick={() => setShowJournal(true)}
+          className="w-9 h-9 sm:w-10 sm:h-10 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-white/10 hover:text-white/80 flex items-center justify-center"
+        >
+          <NotebookPen size={14} className="sm:w-4 sm:h-4" />
+        </button>
+        <button
+          onClick={() => setShowStats(true)}
+          className="w-9 h-9 sm:w-10 sm:h-10 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-white/10 hover:text-white/80 flex items-center justify-center"
+        >
+          <BarChart3 size={14} className="sm:w-4 sm:h-4" />
+        </button>
         <button
           onClick={() => openTaskForm()}
           className="w-9 h-9 sm:w-10 sm:h-10 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-white/10 hover:text-white/80 flex items-center justify-center"
@@ -428,8 +891,8 @@ function App() {
       {/* Main Content */}
       <div className="relative z-10 min-h-screen flex flex-col justify-center p-3 sm:p-4">
         <div className="text-center max-w-md mx-auto w-full">
-          {/* Show focus session UI only if there are tasks */}
-          {tasks.length > 0 ? (
+          {/* Show focus session UI only if there are open tasks */}
+          {activeTasks.length > 0 ? (
             <>
               {/* Session Status */}
               <div className="mb-3 sm:mb-4">
@@ -439,75 +902,67 @@ function App() {
                     : 'bg-blue-500/20 border-blue-400/30 text-blue-300'
                 }`}>
                   {isBreak ? `${breakType === 'short' ? 'Short' : 'Long'} Break` : 'Focus Session'}
+                  {completedSessions > 0 && ` · ${completedSessions} today`}
                 </div>
+                {filterActive && (
+                  <button
+                    onClick={() => setTaskFilter(EMPTY_TASK_FILTER)}
+                    title="Only matching tasks are in the rotation. Click to clear."
+                    className="ml-2 inline-flex items-center space-x-1 px-3 py-1.5 sm:py-2 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl hover:bg-white/10 hover:text-white/80 transition-all duration-200 text-xs sm:text-sm"
+                  >
+                    <Filter size={12} />
+                    <span>Filtered</span>
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+
+              {/* Timer Profile */}
+              <div className="mb-3 sm:mb-4">
+                {currentTask?.timerProfileId ? (
+                  <span
+                    title="This task always uses its own timer profile"
+                    className="inline-flex px-3 py-1 rounded-full bg-white/5 border border-white/10 text-white/50 text-xs"
+                  >
+                    {timerProfile.name} · task profile
+                  </span>
+                ) : (
+                  <select
+                    value={timerSettings.activeProfileId}
+                    onChange={(e) => switchTimerProfile(e.target.value)}
+                    disabled={!!activeSession}
+                    title={activeSession ? 'Finish or stop the session to switch profiles' : 'Timer profile'}
+                    className="px-3 py-1 rounded-full bg-white/5 border border-white/10 text-white/60 text-xs backdrop-blur-xl hover:bg-white/10 focus:outline-none transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {TIMER_PROFILES.map(profile => (
+                      <option key={profile.id} value={profile.id} className="bg-gray-800 text-white">{profile.name}</option>
+                    ))}
+                  </select>
+                )}
               </div>
 
               {/* Current Task Info */}
               {currentTask && !isBreak && (
-                <div className="mb-4 sm:mb-6">
-                  <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 mb-3">
-                    <div className="flex items-center justify-between mb-2 sm:mb-3">
-                      <button
-                        onClick={previousTaskHandler}
-                        disabled={currentTaskIndex === 0}
-                        className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-white/10 border border-white/20 text-white/60 disabled:opacity-30 disabled:cursor-not-allowed hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
-                      >
-                        <ChevronLeft size={12} className="sm:w-3.5 sm:h-3.5" />
-                      </button>
-                      
-                      <div className="flex-1 min-w-0 mx-2 sm:mx-3">
-                        <h1 className="text-base sm:text-lg font-medium text-white/90 mb-1 truncate">
-                          {currentTask.title}
-                        </h1>
-                        {currentTask.description && (
-                          <p className="text-white/60 text-xs sm:text-sm line-clamp-2 mb-1">{currentTask.description}</p>
-                        )}
-                        <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-white/60 mb-2">
-                          <span>{currentTask.duration}min</span>
-                          <span>•</span>
-                          <span>{currentTask.sessions} sessions</span>
-                          <span>•</span>
-                          <span>{currentTaskIndex + 1}/{tasks.length}</span>
-                        </div>
-                        
-                        {/* Weightage and Tags */}
-                        <div className="flex flex-wrap items-center justify-center gap-1 mb-2">
-                          <span className={`px-2 py-1 rounded-full text-xs border backdrop-blur-xl ${getWeightageColor(currentTask.weightage)}`}>
-                            {currentTask.weightage}
-                          </span>
-                          {(currentTask.tags || []).map((tag, index) => (
-                            <span key={index} className="px-2 py-1 rounded-full text-xs bg-blue-500/20 text-blue-300 border border-blue-400/30 backdrop-blur-xl">
-                              {tag}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-
-                      <button
-                        onClick={nextTaskHandler}
-                        disabled={currentTaskIndex === tasks.length - 1}
-                        className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-white/10 border border-white/20 text-white/60 disabled:opacity-30 disabled:cursor-not-allowed hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
-                      >
-                        <ChevronRight size={12} className="sm:w-3.5 sm:h-3.5" />
-                      </button>
-                    </div>
-
-                    <div className="flex items-center justify-center space-x-2">
-                      <button
-                        onClick={() => openTaskForm(currentTask)}
-                        className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
-                      >
-                        <Edit3 size={10} className="sm:w-3 sm:h-3" />
-                      </button>
-                      <button
-                        onClick={() => deleteTask(currentTask.id)}
-                        className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-red-500/20 border border-red-400/40 text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all duration-200 flex items-center justify-center"
-                      >
-                        <Trash2 size={10} className="sm:w-3 sm:h-3" />
-                      </button>
-                    </div>
-                  </div>
-                </div>
+                <TaskCard
+                  task={currentTask}
+                  focusMinutes={focusTime}
+                  position={activeTasks.indexOf(currentTask) + 1}
+                  total={activeTasks.length}
+                  tagRegistry={tagRegistry}
+                  hasPrevious={previousTaskIndex !== -1}
+                  hasNext={nextTaskIndex !== -1}
+                  showCompletionPrompt={completionPromptTaskId === currentTask.id}
+                  onPrevious={previousTaskHandler}
+                  onNext={nextTaskHandler}
+                  onToggleSubtask={(subtaskId) => toggleTaskSubtask(currentTask.id, subtaskId)}
+                  onComplete={() => {
+                    setCompletionPromptTaskId(null);
+                    completeTask(currentTask.id);
+                  }}
+                  onDismissCompletion={() => setCompletionPromptTaskId(null)}
+                  onEdit={() => openTaskForm(currentTask)}
+                  onDelete={() => deleteTask(currentTask.id)}
+                />
               )}
 
               {/* Break Message */}
@@ -518,65 +973,120 @@ function App() {
                   </div>
                   <h1 className="text-lg sm:text-xl font-medium text-white/90 mb-1 sm:mb-2">Take a break</h1>
                   <p className="text-white/60 text-sm sm:text-base">You've completed a focus session. Time to recharge!</p>
+                  {notePromptSessionId && (
+                    <div className="mt-3 sm:mt-4 bg-white/5 backdrop-blur-xl border border-white/10 rounded-lg p-3 text-left">
+                      <label className="block text-white/60 text-xs mb-2">What did you get done?</label>
+                      <textarea
+                        value={sessionNoteDraft}
+                        onChange={(e) => setSessionNoteDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) saveSessionNote();
+                        }}
+                        placeholder="Optional note for this session"
+                        rows={2}
+                        className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 resize-none text-sm"
+                      />
+                      <div className="flex justify-end space-x-2 mt-2">
+                        <button
+                          onClick={() => updateTimer({ type: 'dismissNotePrompt' })}
+                          className="px-3 py-1 rounded-full bg-white/5 border border-white/10 text-white/60 hover:bg-white/10 hover:text-white/80 transition-all duration-200 text-xs"
+                        >
+                          Skip
+                        </button>
+                        <button
+                          onClick={saveSessionNote}
+                          disabled={!sessionNoteDraft.trim()}
+                          className="px-3 py-1 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 hover:bg-blue-500/30 transition-all duration-200 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Save note
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
               {/* Timer Display */}
-              <div className="mb-6 sm:mb-8">
-                <div className="text-4xl sm:text-5xl lg:text-6xl font-light text-white/95 mb-4 sm:mb-6 tracking-wider font-mono">
-                  {formatTime(timeLeft)}
-                </div>
-                
-                {/* Progress Bar */}
-                <div className="relative w-full max-w-xs mx-auto h-1 bg-white/10 rounded-full overflow-hidden">
-                  <div 
-                    className={`absolute left-0 top-0 h-full rounded-full transition-all duration-1000 ease-out ${
-                      isBreak ? 'bg-orange-400 shadow-orange-400/50' : 'bg-blue-400 shadow-blue-400/50'
-                    }`}
-                    style={{ 
-                      width: `${progress}%`,
-                      boxShadow: `0 0 15px currentColor`
+              <TimerDisplay
+                timeLeft={timeLeft}
+                progress={progress}
+                isBreak={isBreak}
+                aside={(goalProgress.daily || goalProgress.weekly) && (
+                  <GoalRing daily={goalProgress.daily} weekly={goalProgress.weekly} streaks={goalProgress.streaks} />
+                )}
+              />
+
+              {/* Controls */}
+              <TimerControls
+                isActive={isActive}
+                canStart={!!currentTask || isBreak}
+                canReset={timeLeft > 0 || isActive}
+                onStart={startTimer}
+                onPause={toggleTimer}
+                onReset={resetTimer}
+                onStop={stopSession}
+              />
+
+              {/* Interruption log for the current pause */}
+              {currentPause && (
+                <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-lg p-3 mb-4 text-left">
+                  <p className="text-white/60 text-xs mb-2">What interrupted you?</p>
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {INTERRUPTION_TYPES.map(({ type, label }) => (
+                      <button
+                        key={type}
+                        onClick={() => annotateCurrentPause({
+                          interruption: currentPause.interruption === type ? undefined : type
+                        })}
+                        className={`px-3 py-1 rounded-full border text-xs transition-all duration-200 ${
+                          currentPause.interruption === type
+                            ? 'bg-blue-500/30 border-blue-400/40 text-blue-200'
+                            : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10 hover:text-white/80'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="text"
+                    value={pauseNoteDraft ?? currentPause.note ?? ''}
+                    onChange={(e) => setPauseNoteDraft(e.target.value)}
+                    onBlur={savePauseNote}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
                     }}
+                    placeholder="Quick note (optional)"
+                    className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-1.5 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-xs"
                   />
                 </div>
-              </div>
+              )}
 
-              {/* Controls */}
-              <div className="flex justify-center items-center space-x-3 sm:space-x-4 mb-4">
-                {!isActive ? (
-                  <button
-                    onClick={startTimer}
-                    disabled={!currentTask && !isBreak}
-                    className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 backdrop-blur-xl shadow-lg shadow-blue-500/20 transition-all duration-300 transform hover:scale-105 active:scale-95 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <Play size={16} className="sm:w-5 sm:h-5 ml-0.5" />
-                  </button>
-                ) : (
-                  <button
-                    onClick={toggleTimer}
-                    className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-orange-500/20 border border-orange-400/40 text-orange-300 backdrop-blur-xl shadow-lg shadow-orange-500/20 transition-all duration-300 transform hover:scale-105 active:scale-95 flex items-center justify-center"
-                  >
-                    <Pause size={16} className="sm:w-5 sm:h-5" />
-                  </button>
-                )}
-                
-                <button
-                  onClick={resetTimer}
-                  disabled={timeLeft === 0 && !isActive}
-                  className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-white/10 hover:text-white/80 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  <RotateCcw size={16} className="sm:w-5 sm:h-5" />
-                </button>
+              {focusSession && focusSession.pauses.length > 0 && (
+                <p className="text-white/50 text-xs mb-4">
+                  {focusSession.pauses.length} {focusSession.pauses.length === 1 ? 'interruption' : 'interruptions'} this session
+                </p>
+              )}
 
-                {isActive && (
+              {/* Automatic transition countdown */}
+              {pendingTransition && (
+                <div className="flex items-center justify-between bg-white/5 backdrop-blur-xl border border-white/10 rounded-lg px-3 py-2 mb-4 text-left">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white/80 text-sm">
+                      {pendingTransition.session ? `${SESSION_KIND_LABELS[pendingTransition.session.kind]} starts` : 'Moving on'} in {transitionCountdown}s
+                    </p>
+                    {pendingNextTask && (
+                      <p className="text-white/50 text-xs truncate">Next task: {pendingNextTask.title}</p>
+                    )}
+                  </div>
                   <button
-                    onClick={stopSession}
-                    className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-red-500/20 border border-red-400/40 text-red-300 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-red-500/30 flex items-center justify-center"
+                    onClick={() => updateTimer({ type: 'cancelTransition' })}
+                    className="ml-2 px-3 py-1 rounded-full bg-white/10 border border-white/20 text-white/70 hover:bg-white/20 hover:text-white/90 transition-all duration-200 text-xs"
                   >
-                    <Square size={16} className="sm:w-5 sm:h-5" />
+                    Cancel
                   </button>
-                )}
-              </div>
+                </div>
+              )}
 
               {/* Next Task Preview */}
               {nextTask && !isBreak && (
@@ -587,7 +1097,7 @@ function App() {
                       <p className="text-white/90 font-medium text-sm truncate">{nextTask.title}</p>
                     </div>
                     <div className="text-white/60 text-xs ml-2">
-                      {nextTask.duration}min
+                      {getFocusMinutes(getEffectiveProfile(timerSettings, nextTask), nextTask)}min
                     </div>
                   </div>
                 </div>
@@ -599,391 +1109,143 @@ function App() {
               <div className="w-12 h-12 sm:w-16 sm:h-16 rounded-full bg-white/5 border border-white/10 flex items-center justify-center mb-4 sm:mb-6 mx-auto">
                 <Plus size={20} className="sm:w-6 sm:h-6 text-white/40" />
               </div>
-              <h2 className="text-lg sm:text-xl font-medium text-white/70 mb-2 sm:mb-3">No tasks yet</h2>
-              <p className="text-white/50 mb-4 sm:mb-6 text-sm">Add your first task to get started</p>
-              <button
-                onClick={() => openTaskForm()}
-                className="px-4 py-2 sm:px-6 sm:py-3 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-blue-500/30 font-medium text-sm"
-              >
-                Add Task
-              </button>
-            </div>
-          )}
-        </div>
-      </div>
-
-      {/* Task List Modal */}
-      {showTaskList && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-30 p-3 sm:p-4">
-          <div className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-sm w-full shadow-2xl max-h-[80vh] overflow-hidden flex flex-col">
-            <div className="flex items-center justify-between mb-4 sm:mb-6">
-              <h2 className="text-lg font-medium text-white/90">All Tasks</h2>
-              <div className="flex items-center space-x-2">
+              <h2 className="text-lg sm:text-xl font-medium text-white/70 mb-2 sm:mb-3">
+                {archivedTasks.length > 0 ? 'All tasks done' : 'No tasks yet'}
+              </h2>
+              <p className="text-white/50 mb-4 sm:mb-6 text-sm">
+                {archivedTasks.length > 0
+                  ? 'Add a new task or restore one from the archive'
+                  : 'Add your first task to get started'}
+              </p>
+              <div className="flex justify-center space-x-2">
                 <button
                   onClick={() => openTaskForm()}
-                  className="w-8 h-8 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 hover:bg-blue-500/30 hover:text-blue-200 transition-all duration-200 flex items-center justify-center"
+                  className="px-4 py-2 sm:px-6 sm:py-3 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-blue-500/30 font-medium text-sm"
                 >
-                  <Plus size={14} />
+                  Add Task
                 </button>
-                <button
-                  onClick={() => setShowTaskList(false)}
-                  className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
-                >
-                  <X size={14} />
-                </button>
-              </div>
-            </div>
-            
-            <div className="flex-1 overflow-y-auto space-y-2 sm:space-y-3">
-              {tasks.map((task, index) => (
-                <div
-                  key={task.id}
-                  className={`p-3 sm:p-4 rounded-lg border transition-all duration-200 ${
-                    index === currentTaskIndex
-                      ? 'bg-blue-500/20 border-blue-400/40 text-blue-300'
-                      : 'bg-white/5 border-white/10 text-white/80 hover:bg-white/10'
-                  }`}
-                >
-                  <div className="flex items-center justify-between mb-1">
-                    <h3 className="font-medium text-sm truncate flex-1">{task.title}</h3>
-                    <div className="flex items-center space-x-1 ml-2">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          openTaskForm(task);
-                        }}
-                        className="w-6 h-6 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
-                      >
-                        <Edit3 size={10} />
-                      </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          deleteTask(task.id);
-                        }}
-                        className="w-6 h-6 rounded-full bg-red-500/20 border border-red-400/40 text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all duration-200 flex items-center justify-center"
-                      >
-                        <Trash2 size={10} />
-                      </button>
-                      <span className="text-xs opacity-70 ml-1">{task.duration}min</span>
-                    </div>
-                  </div>
-                  {task.description && (
-                    <p className="text-xs opacity-70 line-clamp-2 mb-1">{task.description}</p>
-                  )}
-                  
-                  {/* Weightage and Tags in Task List */}
-                  <div className="flex flex-wrap items-center gap-1 mb-2">
-                    <span className={`px-2 py-1 rounded-full text-xs border backdrop-blur-xl ${getWeightageColor(task.weightage)}`}>
-                      {task.weightage}
-                    </span>
-                    {(task.tags || []).slice(0, 2).map((tag, tagIndex) => (
-                      <span key={tagIndex} className="px-2 py-1 rounded-full text-xs bg-blue-500/20 text-blue-300 border border-blue-400/30 backdrop-blur-xl">
-                        {tag}
-                      </span>
-                    ))}
-                    {(task.tags || []).length > 2 && (
-                      <span className="text-xs opacity-60">+{(task.tags || []).length - 2}</span>
-                    )}
-                  </div>
-                  
-                  <div className="flex items-center justify-between text-xs opacity-60">
-                    <span>{task.sessions} sessions</span>
-                    <button
-                      onClick={() => selectTask(index)}
-                      className="px-2 py-1 rounded bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 transition-all duration-200"
-                    >
-                      {index === currentTaskIndex ? 'Current' : 'Select'}
-                    </button>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Task Form Modal */}
-      {showTaskForm && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-30 p-3 sm:p-4">
-          <div className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-sm w-full shadow-2xl">
-            <h2 className="text-lg font-medium text-white/90 mb-4 sm:mb-6 text-center">
-              {editingTask ? 'Edit Task' : 'New Task'}
-            </h2>
-            
-            <div className="space-y-3 sm:space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
-                  Task Title
-                </label>
-                <input
-                  type="text"
-                  value={taskTitle}
-                  onChange={(e) => setTaskTitle(e.target.value)}
-                  placeholder="Enter task title..."
-                  className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
-                  Description (optional)
-                </label>
-                <textarea
-                  value={taskDescription}
-                  onChange={(e) => setTaskDescription(e.target.value)}
-                  placeholder="Add a description..."
-                  rows={2}
-                  className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 resize-none text-sm"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
-                  Duration (minutes)
-                </label>
-                <div className="flex items-center space-x-3">
-                  <button
-                    onClick={() => setTaskDuration(Math.max(5, taskDuration - 5))}
-                    className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
-                  >
-                    -
-                  </button>
-                  <input
-                    type="number"
-                    value={taskDuration}
-                    onChange={(e) => setTaskDuration(Math.max(5, Math.min(120, parseInt(e.target.value) || 5)))}
-                    className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
-                    min="5"
-                    max="120"
-                  />
+                {archivedTasks.length > 0 && (
                   <button
-                    onClick={() => setTaskDuration(Math.min(120, taskDuration + 5))}
-                    className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+                    onClick={() => {
+                      setTaskListView('archive');
+                      setShowTaskList(true);
+                    }}
+                    className="px-4 py-2 sm:px-6 sm:py-3 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-white/10 hover:text-white/80 font-medium text-sm"
                   >
-                    +
+                    Archive
                   </button>
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
-                  Priority Level
-                </label>
-                <select
-                  value={taskWeightage}
-                  onChange={(e) => setTaskWeightage(e.target.value as 'low' | 'medium' | 'high' | 'critical')}
-                  className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
-                >
-                  <option value="low" className="bg-gray-800 text-white">Low Priority</option>
-                  <option value="medium" className="bg-gray-800 text-white">Medium Priority</option>
-                  <option value="high" className="bg-gray-800 text-white">High Priority</option>
-                  <option value="critical" className="bg-gray-800 text-white">Critical</option>
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
-                  Tags (comma separated)
-                </label>
-                <input
-                  type="text"
-                  value={taskTags}
-                  onChange={(e) => setTaskTags(e.target.value)}
-                  placeholder="work, urgent, meeting..."
-                  className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
-                />
+                )}
               </div>
             </div>
-
-            <div className="flex justify-center space-x-3 mt-4 sm:mt-6">
-              <button
-                onClick={resetForm}
-                className="w-10 h-10 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-white/10 hover:text-white/80 flex items-center justify-center"
-              >
-                <X size={16} />
-              </button>
-              <button
-                onClick={editingTask ? updateTask : addTask}
-                disabled={!taskTitle.trim()}
-                className="w-10 h-10 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 backdrop-blur-xl shadow-lg shadow-blue-500/20 transition-all duration-300 transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-              >
-                <Check size={16} />
-              </button>
-            </div>
-          </div>
+          )}
         </div>
+      </div>
+
+      {/* Task List Modal */}
+      {showTaskList && (
+        <TaskList
+          tasks={tasks}
+          currentTaskIndex={currentTaskIndex}
+          tagRegistry={tagRegistry}
+          timerSettings={timerSettings}
+          view={taskListView}
+          filter={taskFilter}
+          grouping={taskGrouping}
+          onViewChange={setTaskListView}
+          onFilterChange={setTaskFilter}
+          onGroupingChange={setTaskGrouping}
+          onSelect={selectTask}
+          onAdd={() => openTaskForm()}
+          onEdit={openTaskForm}
+          onComplete={completeTask}
+          onDelete={deleteTask}
+          onRestore={restoreTask}
+          onReorder={reorderTasks}
+          onClose={() => setShowTaskList(false)}
+        />
       )}
 
-      {/* Settings Modal */}
-      {showSettings && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-30 p-3 sm:p-4">
-          <div className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-sm w-full shadow-2xl">
-            <h2 className="text-lg font-medium text-white/90 mb-4 sm:mb-6 text-center">Settings</h2>
-            
-            <div className="space-y-3 sm:space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
-                  Short Break (minutes)
-                </label>
-                <div className="flex items-center space-x-3">
-                  <button
-                    onClick={() => setShortBreakTime(Math.max(1, shortBreakTime - 1))}
-                    className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
-                  >
-                    -
-                  </button>
-                  <input
-                    type="number"
-                    value={shortBreakTime}
-                    onChange={(e) => setShortBreakTime(Math.max(1, Math.min(30, parseInt(e.target.value) || 1)))}
-                    className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
-                    min="1"
-                    max="30"
-                  />
-                  <button
-                    onClick={() => setShortBreakTime(Math.min(30, shortBreakTime + 1))}
-                    className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
-                  >
-                    +
-                  </button>
-                </div>
-              </div>
+      {/* Command Palette */}
+      {showCommandPalette && (
+        <CommandPalette
+          commands={paletteCommands}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
 
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
-                  Long Break (minutes)
-                </label>
-                <div className="flex items-center space-x-3">
-                  <button
-                    onClick={() => setLongBreakTime(Math.max(5, longBreakTime - 5))}
-                    className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
-                  >
-                    -
-                  </button>
-                  <input
-                    type="number"
-                    value={longBreakTime}
-                    onChange={(e) => setLongBreakTime(Math.max(5, Math.min(60, parseInt(e.target.value) || 5)))}
-                    className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
-                    min="5"
-                    max="60"
-                  />
-                  <button
-                    onClick={() => setLongBreakTime(Math.min(60, longBreakTime + 5))}
-                    className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
-                  >
-                    +
-                  </button>
-                </div>
-              </div>
+      {/* Shortcut Help */}
+      {showShortcutHelp && (
+        <ShortcutHelp
+          bindings={shortcuts}
+          onClose={() => setShowShortcutHelp(false)}
+        />
+      )}
 
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
-                  Sessions until long break
-                </label>
-                <div className="flex items-center space-x-3">
-                  <button
-                    onClick={() => setSessionsUntilLongBreak(Math.max(2, sessionsUntilLongBreak - 1))}
-                    className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
-                  >
-                    -
-                  </button>
-                  <input
-                    type="number"
-                    value={sessionsUntilLongBreak}
-                    onChange={(e) => setSessionsUntilLongBreak(Math.max(2, Math.min(10, parseInt(e.target.value) || 2)))}
-                    className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
-                    min="2"
-                    max="10"
-                  />
-                  <button
-                    onClick={() => setSessionsUntilLongBreak(Math.min(10, sessionsUntilLongBreak + 1))}
-                    className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
-                  >
-                    +
-                  </button>
-                </div>
-              </div>
-            </div>
+      {/* Journal Modal */}
+      {showJournal && (
+        <JournalView
+          tasks={tasks}
+          sessionHistory={sessionHistory}
+          dayStartHour={dayStartHour}
+          onClose={() => setShowJournal(false)}
+        />
+      )}
 
-            <div className="flex justify-center mt-4 sm:mt-6">
-              <button
-                onClick={() => setShowSettings(false)}
-                className="w-10 h-10 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 backdrop-blur-xl shadow-lg shadow-blue-500/20 transition-all duration-300 transform hover:scale-105 active:scale-95 flex items-center justify-center"
-              >
-                <Check size={16} />
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* Stats Modal */}
+      {showStats && (
+        <StatsView
+          tasks={tasks}
+          sessionHistory={sessionHistory}
+          dailyGoal={timerSettings.dailyGoal}
+          dayStartHour={dayStartHour}
+          onClose={() => setShowStats(false)}
+        />
       )}
-    </div>
-  );
-}
 
-// Ambient Background Component
-function AmbientBackground({ 
-  isBreak, 
-  progress, 
-  isActive,
-  breakType 
-}: { 
-  isBreak: boolean; 
-  progress: number; 
-  isActive: boolean;
-  breakType: 'short' | 'long';
-}) {
-  return (
-    <div className="absolute inset-0">
-      {/* Base gradient */}
-      <div className={`absolute inset-0 transition-all duration-[3000ms] ease-out ${
-        isBreak 
-          ? breakType === 'long'
-            ? 'bg-gradient-to-br from-orange-900/20 via-red-900/10 to-black'
-            : 'bg-gradient-to-br from-orange-900/15 via-amber-900/10 to-black'
-          : 'bg-gradient-to-br from-blue-900/20 via-indigo-900/10 to-black'
-      }`} />
-
-      {/* Flowing gradients */}
-      <div className={`absolute inset-0 transition-all duration-[5000ms] ease-out ${
-        isBreak 
-          ? 'bg-gradient-to-tr from-transparent via-orange-500/5 to-transparent'
-          : 'bg-gradient-to-tr from-transparent via-blue-500/5 to-transparent'
-      }`} 
-      style={{
-        transform: `translateX(${progress * 2 - 100}px) translateY(${Math.sin(progress / 10) * 20}px)`,
-        opacity: isActive ? 0.8 : 0.3
-      }} />
-
-      {/* Starfield effect */}
-      <div className="absolute inset-0">
-        {[...Array(20)].map((_, i) => (
-          <div
-            key={i}
-            className={`absolute w-1 h-1 rounded-full transition-all duration-[2000ms] ${
-              isBreak ? 'bg-orange-400/30' : 'bg-blue-400/30'
-            }`}
-            style={{
-              left: `${(i * 7.3) % 100}%`,
-              top: `${(i * 11.7) % 100}%`,
-              animationDelay: `${i * 0.1}s`,
-              opacity: isActive ? 0.6 : 0.2,
-              transform: `scale(${0.5 + (progress / 200)})`,
-            }}
-          />
-        ))}
-      </div>
+      {/* Task Form Modal */}
+      {showTaskForm && (
+        <TaskForm
+          task={editingTask}
+          tagRegistry={tagRegistry}
+          onSave={saveTask}
+          onClose={closeTaskForm}
+        />
+      )}
 
-      {/* Breathing glow */}
-      {isActive && (
-        <div className={`absolute inset-0 transition-all duration-[4000ms]`}
-        style={{
-          background: `radial-gradient(circle at 50% 50%, ${
-            isBreak ? 'rgba(249, 115, 22, 0.1)' : 'rgba(59, 130, 246, 0.1)'
-          } 0%, transparent 70%)`,
-          transform: `scale(${1 + Math.sin(Date.now() / 3000) * 0.1})`,
-        }} />
+      {/* Settings Modal */}
+      {showSettings && (
+        <SettingsView
+          timerSettings={timerSettings}
+          soundSettings={soundSettings}
+          shortcuts={shortcuts}
+          tagRegistry={tagRegistry}
+          profileLocked={!!activeSession}
+          autoTransitionSeconds={AUTO_TRANSITION_SECONDS}
+          notificationsEnabled={notificationsEnabled}
+          notificationPermission={notificationPermission}
+          sync={supabase ? {
+            email: sync.user?.email ?? null,
+            status: sync.status,
+            queued: sync.state.queue.length,
+            onSignIn: sync.signIn,
+            onSignOut: sync.signOut,
+            onSyncNow: sync.syncNow
+          } : null}
+          pendingImport={pendingImport}
+          importError={importError}
+          onTimerSettingsChange={setTimerSettings}
+          onSoundSettingsChange={setSoundSettings}
+          onShortcutsChange={setShortcuts}
+          onToggleNotifications={toggleNotifications}
+          onRenameTag={renameTag}
+          onRecolorTag={recolorTag}
+          onDeleteTag={deleteTag}
+          onExport={exportData}
+          onImportFile={readImportFile}
+          onImport={importData}
+          onCancelImport={() => setPendingImport(null)}
+          onClose={() => setShowSettings(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,26 @@
+// @vitest-environment jsdom
+import { cleanup, render } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+import AmbientBackground from './AmbientBackground';
+
+afterEach(cleanup);
+
+describe('AmbientBackground', () => {
+  it('tints a long break differently from a short one', () => {
+    const { container, rerender } = render(<AmbientBackground isBreak progress={0} isActive={false} breakType="long" />);
+    expect(container.querySelector('.from-orange-900\\/20')).not.toBeNull();
+
+    rerender(<AmbientBackground isBreak progress={0} isActive={false} breakType="short" />);
+    expect(container.querySelector('.from-orange-900\\/20')).toBeNull();
+    expect(container.querySelector('.from-orange-900\\/15')).not.toBeNull();
+  });
+
+  it('only breathes while the timer runs', () => {
+    const { container, rerender } = render(<AmbientBackground isBreak={false} progress={50} isActive={false} breakType="short" />);
+    expect(container.querySelector('.from-blue-900\\/20')).not.toBeNull();
+    expect(container.querySelector('[style*="radial-gradient"]')).toBeNull();
+
+    rerender(<AmbientBackground isBreak={false} progress={50} isActive breakType="short" />);
+    expect(container.querySelector('[style*="radial-gradient"]')).not.toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import type { BreakType } from '../lib/timerMachine';
+
+// Ambient Background Component
+function AmbientBackground({ 
+  isBreak, 
+  progress, 
+  isActive,
+  breakType 
+}: { 
+  isBreak: boolean; 
+  progress: number; 
+  isActive: boolean;
+  breakType: BreakType;
+}) {
+  return (
+    <div className="absolute inset-0">
+      {/* Base gradient */}
+      <div className={`absolute inset-0 transition-all duration-[3000ms] ease-out ${
+        isBreak 
+          ? breakType === 'long'
+            ? 'bg-gradient-to-br from-orange-900/20 via-red-900/10 to-black'
+            : 'bg-gradient-to-br from-orange-900/15 via-amber-900/10 to-black'
+          : 'bg-gradient-to-br from-blue-900/20 via-indigo-900/10 to-black'
+      }`} />
+
+      {/* Flowing gradients */}
+      <div className={`absolute inset-0 transition-all duration-[5000ms] ease-out ${
+        isBreak 
+          ? 'bg-gradient-to-tr from-transparent via-orange-500/5 to-transparent'
+          : 'bg-gradient-to-tr from-transparent via-blue-500/5 to-transparent'
+      }`} 
+      style={{
+        transform: `translateX(${progress * 2 - 100}px) translateY(${Math.sin(progress / 10) * 20}px)`,
+        opacity: isActive ? 0.8 : 0.3
+      }} />
+
+      {/* Starfield effect */}
+      <div className="absolute inset-0">
+        {[...Array(20)].map((_, i) => (
+          <div
+            key={i}
+            className={`absolute w-1 h-1 rounded-full transition-all duration-[2000ms] ${
+              isBreak ? 'bg-orange-400/30' : 'bg-blue-400/30'
+            }`}
+            style={{
+              left: `${(i * 7.3) % 100}%`,
+              top: `${(i * 11.7) % 100}%`,
+              animationDelay: `${i * 0.1}s`,
+              opacity: isActive ? 0.6 : 0.2,
+              transform: `scale(${0.5 + (progress / 200)})`,
+            }}
+          />
+        ))}
+      </div>
+
+      {/* Breathing glow */}
+      {isActive && (
+        <div className={`absolute inset-0 transition-all duration-[4000ms]`}
+        style={{
+          background: `radial-gradient(circle at 50% 50%, ${
+            isBreak ? 'rgba(249, 115, 22, 0.1)' : 'rgba(59, 130, 246, 0.1)'
+          } 0%, transparent 70%)`,
+          transform: `scale(${1 + Math.sin(Date.now() / 3000) * 0.1})`,
+        }} />
+      )}
+    </div>
+  );
+}
+
+export default AmbientBackground;
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Search } from 'lucide-react';
+import { fuzzyFilter } from '../lib/fuzzy';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  section: 'Actions' | 'Tasks';
+  hint?: string; // shortcut or other detail shown on the right
+  run: () => void;
+}
+
+function CommandPalette({
+  commands,
+  onClose
+}: {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+
+  const results = fuzzyFilter(commands, query, command => command.label);
+  const activeIndex = Math.min(selected, Math.max(0, results.length - 1));
+
+  const runCommand = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected((activeIndex + 1) % Math.max(1, results.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected((activeIndex - 1 + results.length) % Math.max(1, results.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(results[activeIndex]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start justify-center z-40 p-3 sm:p-4 pt-[15vh]"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl max-w-md w-full shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="relative border-b border-white/10">
+          <Search size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-white/40" />
+          <input
+            type="text"
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search tasks and actions..."
+            className="w-full bg-transparent pl-10 pr-4 py-3 text-white/90 focus:outline-none text-sm"
+          />
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto p-2">
+          {results.length === 0 ? (
+            <p className="text-white/40 text-xs text-center py-4">Nothing matches</p>
+          ) : (
+            results.map((command, index) => (
+              <button
+                key={command.id}
+                onClick={() => runCommand(command)}
+                onMouseMove={() => setSelected(index)}
+                className={`w-full flex items-center justify-between rounded-lg px-3 py-2 text-left text-sm transition-colors duration-100 ${
+                  index === activeIndex ? 'bg-white/10 text-white/90' : 'text-white/70'
+                }`}
+              >
+                <span className="truncate">
+                  <span className="text-white/40 text-xs mr-2">{command.section === 'Tasks' ? 'Task' : 'Action'}</span>
+                  {command.label}
+                </span>
+                {command.hint && <span className="text-white/40 text-xs ml-2 shrink-0">{command.hint}</span>}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
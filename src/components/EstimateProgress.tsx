@@ -0,0 +1,28 @@
+import type { Task } from '../types';
+import { isOverEstimate } from '../lib/tasks';
+
+// Estimated vs actual pomodoros for a task
+function EstimateProgress({ task }: { task: Task }) {
+  if (!task.estimatedPomodoros) return null;
+
+  const over = isOverEstimate(task);
+  const percent = Math.min(100, (task.sessions / task.estimatedPomodoros) * 100);
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${over ? 'bg-red-400' : 'bg-green-400/70'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {over && (
+        <span className="text-[10px] text-red-300 shrink-0">
+          +{task.sessions - task.estimatedPomodoros} over
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default EstimateProgress;
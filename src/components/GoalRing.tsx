@@ -0,0 +1,71 @@
+import { Flame } from 'lucide-react';
+import { formatGoalAmount, type GoalProgress } from '../lib/goals';
+import type { Streaks } from '../lib/stats';
+
+const SIZE = 64;
+const STROKE = 5;
+
+function Ring({ radius, fraction, className }: { radius: number; fraction: number; className: string }) {
+  const circumference = 2 * Math.PI * radius;
+  return (
+    <>
+      <circle cx={SIZE / 2} cy={SIZE / 2} r={radius} fill="none" strokeWidth={STROKE} className="stroke-white/10" />
+      <circle
+        cx={SIZE / 2}
+        cy={SIZE / 2}
+        r={radius}
+        fill="none"
+        strokeWidth={STROKE}
+        strokeLinecap="round"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - fraction)}
+        className={`transition-all duration-1000 ease-out ${className}`}
+      />
+    </>
+  );
+}
+
+// Progress towards the daily goal (outer ring) and weekly goal (inner
+// ring), with the current streak in the middle
+function GoalRing({
+  daily,
+  weekly,
+  streaks
+}: {
+  daily: GoalProgress | null;
+  weekly: GoalProgress | null;
+  streaks: Streaks;
+}) {
+  const summary = [
+    daily && `Today: ${daily.done} of ${formatGoalAmount(daily.target, daily.unit)}`,
+    weekly && `This week: ${weekly.done} of ${formatGoalAmount(weekly.target, weekly.unit)}`,
+    `Streak: ${streaks.current} ${streaks.current === 1 ? 'day' : 'days'} (best ${streaks.longest})`
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div title={summary} aria-label={summary} role="img" className="relative w-14 h-14 sm:w-16 sm:h-16 shrink-0">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-full -rotate-90">
+        {daily && (
+          <Ring
+            radius={SIZE / 2 - STROKE / 2}
+            fraction={daily.fraction}
+            className={daily.fraction >= 1 ? 'stroke-emerald-400' : 'stroke-blue-400'}
+          />
+        )}
+        {weekly && (
+          <Ring
+            radius={SIZE / 2 - STROKE * 2}
+            fraction={weekly.fraction}
+            className={weekly.fraction >= 1 ? 'stroke-emerald-400/70' : 'stroke-purple-400/70'}
+          />
+        )}
+      </svg>
+      <div className="absolute inset-0 flex items-center justify-center space-x-0.5 text-xs text-white/80">
+        <Flame size={12} className={streaks.current > 0 ? 'text-orange-400' : 'text-white/30'} />
+        <span>{streaks.current}</span>
+      </div>
+    </div>
+  );
+}
+
+export default GoalRing;
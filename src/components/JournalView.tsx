@@ -0,0 +1,97 @@
+import { useMemo, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import type { SessionRecord, Task } from '../types';
+import { getJournalEntries, groupJournalEntries, type JournalGrouping, searchJournal } from '../lib/journal';
+
+function JournalView({
+  tasks,
+  sessionHistory,
+  dayStartHour,
+  onClose
+}: {
+  tasks: Task[];
+  sessionHistory: SessionRecord[];
+  dayStartHour: number;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [grouping, setGrouping] = useState<JournalGrouping>('date');
+
+  const entries = useMemo(() => getJournalEntries(sessionHistory, tasks), [sessionHistory, tasks]);
+  const groups = groupJournalEntries(searchJournal(entries, query), grouping, dayStartHour);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-30 p-3 sm:p-4">
+      <div className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-md w-full shadow-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between mb-4 sm:mb-6">
+          <h2 className="text-lg font-medium text-white/90">Journal</h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-2 mb-4">
+          <div className="relative flex-1">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search notes..."
+              className="w-full bg-white/5 border border-white/20 rounded-lg pl-9 pr-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+            />
+          </div>
+          <div className="flex bg-white/5 border border-white/10 rounded-full p-0.5 text-xs shrink-0">
+            {(['date', 'task'] as JournalGrouping[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setGrouping(option)}
+                className={`px-3 py-1 rounded-full capitalize transition-all duration-200 ${
+                  grouping === option ? 'bg-blue-500/30 text-blue-200' : 'text-white/50 hover:text-white/80'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {groups.length === 0 ? (
+            <p className="text-white/40 text-xs text-center py-4">
+              {entries.length === 0 ? 'No session notes yet' : 'No notes match your search'}
+            </p>
+          ) : (
+            groups.map(group => (
+              <div key={group.key}>
+                <h3 className="text-xs font-medium text-white/50 uppercase tracking-wide mb-2">{group.label}</h3>
+                <div className="space-y-2">
+                  {group.entries.map(entry => (
+                    <div key={entry.record.id} className="bg-white/5 border border-white/10 rounded-lg p-3">
+                      <div className="flex items-center justify-between text-xs mb-1">
+                        <span className="text-white/70 truncate">
+                          {grouping === 'date'
+                            ? entry.taskTitle
+                            : new Date(entry.record.endedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                        </span>
+                        <span className="text-white/40 ml-2 shrink-0">
+                          {new Date(entry.record.endedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                      </div>
+                      <p className="text-white/90 text-sm whitespace-pre-wrap break-words">{entry.note}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default JournalView;
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import type { SetStateAction } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TimerSettings } from '../types';
+import type { BackupData } from '../lib/backup';
+import { DEFAULT_SHORTCUTS } from '../lib/shortcuts';
+import { DEFAULT_SOUND_SETTINGS } from '../lib/sound';
+import { DEFAULT_TIMER_SETTINGS } from '../lib/timerProfiles';
+import SettingsView from './SettingsView';
+
+afterEach(cleanup);
+
+const backup: BackupData = {
+  tasks: [],
+  currentTaskIndex: 0,
+  settings: DEFAULT_TIMER_SETTINGS,
+  completedSessions: 0,
+  sessionHistory: [],
+  tags: []
+};
+
+const settingsView = (props: Partial<Parameters<typeof SettingsView>[0]> = {}) => {
+  const handlers = {
+    onTimerSettingsChange: vi.fn(),
+    onSoundSettingsChange: vi.fn(),
+    onShortcutsChange: vi.fn(),
+    onToggleNotifications: vi.fn(),
+    onRenameTag: vi.fn(),
+    onRecolorTag: vi.fn(),
+    onDeleteTag: vi.fn(),
+    onExport: vi.fn(),
+    onImportFile: vi.fn(),
+    onImport: vi.fn(),
+    onCancelImport: vi.fn(),
+    onClose: vi.fn()
+  };
+  render(
+    <SettingsView
+      timerSettings={DEFAULT_TIMER_SETTINGS}
+      soundSettings={DEFAULT_SOUND_SETTINGS}
+      shortcuts={DEFAULT_SHORTCUTS}
+      tagRegistry={[]}
+      profileLocked={false}
+      autoTransitionSeconds={10}
+      notificationsEnabled={false}
+      notificationPermission="default"
+      sync={null}
+      pendingImport={null}
+      importError={null}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+// Run the updater SettingsView passed to onTimerSettingsChange
+const applyUpdate = (update: SetStateAction<TimerSettings>) =>
+  typeof update === 'function' ? update(DEFAULT_TIMER_SETTINGS) : update;
+
+describe('SettingsView', () => {
+  it('keeps a goal within its limits', () => {
+    const { onTimerSettingsChange } = settingsView();
+    fireEvent.change(screen.getByRole('spinbutton', { name: 'Daily goal' }), { target: { value: '500' } });
+    expect(applyUpdate(onTimerSettingsChange.mock.calls[0][0]).dailyGoal).toEqual({ target: 200, unit: 'sessions' });
+  });
+
+  it('turns an automation option on', () => {
+    const { onTimerSettingsChange } = settingsView();
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Start breaks automatically' }));
+    expect(applyUpdate(onTimerSettingsChange.mock.calls[0][0]).autoStartBreaks).toBe(!DEFAULT_TIMER_SETTINGS.autoStartBreaks);
+    expect(screen.getByText('Automatic steps wait 10 seconds with a countdown you can cancel.')).toBeTruthy();
+  });
+
+  it('asks how to apply a pending import', () => {
+    const { onImport, onCancelImport } = settingsView({ pendingImport: backup });
+    expect(screen.getByText(/Found 0 tasks and 0 sessions/)).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Replace' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onImport.mock.calls).toEqual([['merge'], ['replace']]);
+    expect(onCancelImport).toHaveBeenCalledOnce();
+  });
+
+  it('shows why an import failed', () => {
+    settingsView({ importError: 'This file is not a backup' });
+    expect(screen.getByText('This file is not a backup')).toBeTruthy();
+  });
+});
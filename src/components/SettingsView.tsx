@@ -0,0 +1,453 @@
+import type { ComponentProps, Dispatch, SetStateAction } from 'react';
+import { Check, Download, Upload, Volume2, VolumeX } from 'lucide-react';
+import type { ChimePreset, FocusGoal, FocusLoop, GoalUnit, SoundSettings, TagColor, TagDefinition, TimerProfileField, TimerSettings } from '../types';
+import type { BackupData, ImportMode } from '../lib/backup';
+import { clampGoalTarget, GOAL_UNITS } from '../lib/goals';
+import { notificationsSupported } from '../lib/notifications';
+import { DEFAULT_SHORTCUTS, rebindShortcut, type ShortcutBindings } from '../lib/shortcuts';
+import { CHIME_PRESETS, FOCUS_LOOPS, playChime } from '../lib/sound';
+import { clampProfileValue, getProfile, TIMER_PROFILES } from '../lib/timerProfiles';
+import ShortcutSettings from './ShortcutSettings';
+import SyncSettings from './SyncSettings';
+import TagManager from './TagManager';
+
+const PROFILE_FIELDS: { field: TimerProfileField; label: string }[] = [
+  { field: 'focusMinutes', label: 'Focus (minutes)' },
+  { field: 'shortBreakMinutes', label: 'Short Break (minutes)' },
+  { field: 'longBreakMinutes', label: 'Long Break (minutes)' },
+  { field: 'sessionsUntilLongBreak', label: 'Sessions until long break' }
+];
+
+const AUTOMATION_OPTIONS: { option: 'autoStartBreaks' | 'autoStartFocus' | 'autoAdvanceTasks' | 'promptSessionNotes'; label: string }[] = [
+  { option: 'autoStartBreaks', label: 'Start breaks automatically' },
+  { option: 'autoStartFocus', label: 'Start focus after a break' },
+  { option: 'autoAdvanceTasks', label: 'Move on when a task reaches its estimate' },
+  { option: 'promptSessionNotes', label: 'Ask for a note after each focus session' }
+];
+
+const GOAL_PERIODS: { setting: 'dailyGoal' | 'weeklyGoal'; label: string }[] = [
+  { setting: 'dailyGoal', label: 'Daily' },
+  { setting: 'weeklyGoal', label: 'Weekly' }
+];
+
+function SettingsView({
+  timerSettings,
+  soundSettings,
+  shortcuts,
+  tagRegistry,
+  profileLocked,
+  autoTransitionSeconds,
+  notificationsEnabled,
+  notificationPermission,
+  sync,
+  pendingImport,
+  importError,
+  onTimerSettingsChange,
+  onSoundSettingsChange,
+  onShortcutsChange,
+  onToggleNotifications,
+  onRenameTag,
+  onRecolorTag,
+  onDeleteTag,
+  onExport,
+  onImportFile,
+  onImport,
+  onCancelImport,
+  onClose
+}: {
+  timerSettings: TimerSettings;
+  soundSettings: SoundSettings;
+  shortcuts: ShortcutBindings;
+  tagRegistry: TagDefinition[];
+  profileLocked: boolean; // the profile cannot change during a session
+  autoTransitionSeconds: number;
+  notificationsEnabled: boolean;
+  notificationPermission: NotificationPermission;
+  sync: ComponentProps<typeof SyncSettings> | null; // null when cloud sync is not configured
+  pendingImport: BackupData | null; // backup waiting for a merge or replace choice
+  importError: string | null;
+  onTimerSettingsChange: Dispatch<SetStateAction<TimerSettings>>;
+  onSoundSettingsChange: Dispatch<SetStateAction<SoundSettings>>;
+  onShortcutsChange: (shortcuts: ShortcutBindings) => void;
+  onToggleNotifications: (enabled: boolean) => void;
+  onRenameTag: (from: string, to: string) => void;
+  onRecolorTag: (name: string, color: TagColor) => void;
+  onDeleteTag: (name: string) => void;
+  onExport: () => void;
+  onImportFile: (file: File) => void;
+  onImport: (mode: ImportMode) => void;
+  onCancelImport: () => void;
+  onClose: () => void;
+}) {
+  const activeProfile = getProfile(timerSettings, timerSettings.activeProfileId);
+
+  // Takes the value rather than reading the event inside the updater, which
+  // may run after React has reset a controlled input
+  const updateTimerSetting = <K extends keyof TimerSettings>(key: K, value: TimerSettings[K]) => {
+    onTimerSettingsChange(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateSoundSetting = <K extends keyof SoundSettings>(key: K, value: SoundSettings[K]) => {
+    onSoundSettingsChange(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateGoal = (setting: 'dailyGoal' | 'weeklyGoal', changes: Partial<FocusGoal>) => {
+    onTimerSettingsChange(prev => {
+      const goal = { ...prev[setting], ...changes };
+      return { ...prev, [setting]: { ...goal, target: clampGoalTarget(goal.unit, goal.target) } };
+    });
+  };
+
+  // Adjust a number of the active profile, kept within that profile's limits
+  const updateProfileValue = (field: TimerProfileField, value: number) => {
+    onTimerSettingsChange(prev => ({
+      ...prev,
+      profiles: {
+        ...prev.profiles,
+        [activeProfile.id]: {
+          ...prev.profiles[activeProfile.id],
+          [field]: clampProfileValue(activeProfile, field, value)
+        }
+      }
+    }));
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportFile(file);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-30 p-3 sm:p-4">
+      <div className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-sm w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-medium text-white/90 mb-4 sm:mb-6 text-center">Settings</h2>
+        
+        <div className="space-y-3 sm:space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Timer profile
+            </label>
+            <select
+              value={timerSettings.activeProfileId}
+              onChange={(e) => updateTimerSetting('activeProfileId', e.target.value)}
+              disabled={profileLocked}
+              className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm disabled:opacity-50"
+            >
+              {TIMER_PROFILES.map(profile => (
+                <option key={profile.id} value={profile.id} className="bg-gray-800 text-white">{profile.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {PROFILE_FIELDS
+            .filter(({ field }) => field !== 'focusMinutes' || activeProfile.focusMinutes !== null)
+            .map(({ field, label }) => {
+              const { min, max, step } = activeProfile.limits[field];
+              const value = activeProfile[field] as number;
+              return (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+                    {label}
+                  </label>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => updateProfileValue(field, value - step)}
+                      className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+                    >
+                      -
+                    </button>
+                    <input
+                      type="number"
+                      value={value}
+                      onChange={(e) => updateProfileValue(field, parseInt(e.target.value))}
+                      className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+                      min={min}
+                      max={max}
+                    />
+                    <button
+                      onClick={() => updateProfileValue(field, value + step)}
+                      className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+
+          <div className="pt-3 sm:pt-4 border-t border-white/10">
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Automation
+            </label>
+            <div className="space-y-2">
+              {AUTOMATION_OPTIONS.map(({ option, label }) => (
+                <label key={option} className="flex items-center justify-between text-sm text-white/80 cursor-pointer">
+                  <span>{label}</span>
+                  <input
+                    type="checkbox"
+                    checked={timerSettings[option]}
+                    onChange={(e) => updateTimerSetting(option, e.target.checked)}
+                    className="w-4 h-4 accent-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-white/40 text-xs mt-2">
+              Automatic steps wait {autoTransitionSeconds} seconds with a countdown you can cancel.
+            </p>
+          </div>
+
+          <div className="pt-3 sm:pt-4 border-t border-white/10 space-y-3">
+            <label className="block text-sm font-medium text-white/70">
+              Goals
+            </label>
+            {GOAL_PERIODS.map(({ setting, label }) => (
+              <div key={setting} className="flex items-center space-x-2">
+                <span className="text-xs text-white/60 w-14">{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  aria-label={`${label} goal`}
+                  value={timerSettings[setting].target}
+                  onChange={(e) => updateGoal(setting, { target: parseInt(e.target.value) })}
+                  className="w-20 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+                />
+                <select
+                  value={timerSettings[setting].unit}
+                  onChange={(e) => updateGoal(setting, { unit: e.target.value as GoalUnit })}
+                  className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+                >
+                  {GOAL_UNITS.map(({ unit, label: unitLabel }) => (
+                    <option key={unit} value={unit} className="bg-gray-800 text-white">{unitLabel}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs text-white/60 mb-1">New day starts at</label>
+              <select
+                value={timerSettings.dayStartHour}
+                onChange={(e) => updateTimerSetting('dayStartHour', parseInt(e.target.value))}
+                className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour} className="bg-gray-800 text-white">
+                    {new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-white/40 text-xs">
+              A goal of 0 is off. The session count, goals and streaks start over when a new day begins.
+            </p>
+          </div>
+
+          <div className="pt-3 sm:pt-4 border-t border-white/10 space-y-3">
+            <label className="block text-sm font-medium text-white/70">
+              Sound
+            </label>
+            <div className="flex items-center space-x-2">
+              <select
+                value={soundSettings.chime}
+                onChange={(e) => updateSoundSetting('chime', e.target.value as ChimePreset)}
+                className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+              >
+                {(Object.keys(CHIME_PRESETS) as ChimePreset[]).map(preset => (
+                  <option key={preset} value={preset} className="bg-gray-800 text-white">{CHIME_PRESETS[preset].label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => playChime(soundSettings.chime, 'focus')}
+                className="px-3 py-2 rounded-lg bg-white/5 border border-white/20 text-white/80 hover:bg-white/10 transition-all duration-200 text-sm"
+              >
+                Preview
+              </button>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => updateSoundSetting('muted', !soundSettings.muted)}
+                title={soundSettings.muted ? 'Unmute' : 'Mute'}
+                className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 shrink-0"
+              >
+                {soundSettings.muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={soundSettings.volume}
+                onChange={(e) => updateSoundSetting('volume', parseInt(e.target.value))}
+                disabled={soundSettings.muted}
+                className="flex-1 accent-blue-500 disabled:opacity-50"
+              />
+              <span className="text-white/60 text-xs w-8 text-right">{soundSettings.volume}%</span>
+            </div>
+            <div>
+              <label className="block text-xs text-white/60 mb-1">Background during focus</label>
+              <select
+                value={soundSettings.focusLoop}
+                onChange={(e) => updateSoundSetting('focusLoop', e.target.value as FocusLoop)}
+                className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+              >
+                {FOCUS_LOOPS.map(({ loop, label }) => (
+                  <option key={loop} value={loop} className="bg-gray-800 text-white">{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-white/60 mb-1">
+                Warning chime before the end (minutes, 0 for off)
+              </label>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => updateSoundSetting('warningMinutes', Math.max(0, soundSettings.warningMinutes - 1))}
+                  className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+                >
+                  -
+                </button>
+                <input
+                  type="number"
+                  value={soundSettings.warningMinutes}
+                  onChange={(e) => updateSoundSetting('warningMinutes', Math.max(0, Math.min(30, parseInt(e.target.value) || 0)))}
+                  className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+                  min={0}
+                  max={30}
+                />
+                <button
+                  onClick={() => updateSoundSetting('warningMinutes', Math.min(30, soundSettings.warningMinutes + 1))}
+                  className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-3 sm:pt-4 border-t border-white/10">
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Notifications
+            </label>
+            {!notificationsSupported() ? (
+              <p className="text-white/40 text-xs">This browser does not support notifications.</p>
+            ) : notificationPermission === 'denied' ? (
+              <p className="text-white/40 text-xs">Notifications are blocked. Allow them for this site in your browser settings.</p>
+            ) : (
+              <label className="flex items-center justify-between text-sm text-white/80 cursor-pointer">
+                <span>Desktop notifications with actions</span>
+                <input
+                  type="checkbox"
+                  checked={notificationsEnabled && notificationPermission === 'granted'}
+                  onChange={(e) => onToggleNotifications(e.target.checked)}
+                  className="w-4 h-4 accent-blue-500"
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="pt-3 sm:pt-4 border-t border-white/10">
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Keyboard shortcuts
+            </label>
+            <ShortcutSettings
+              bindings={shortcuts}
+              onRebind={(action, combo) => onShortcutsChange(rebindShortcut(shortcuts, action, combo))}
+              onReset={() => onShortcutsChange(DEFAULT_SHORTCUTS)}
+            />
+          </div>
+
+          <div className="pt-3 sm:pt-4 border-t border-white/10">
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Tags
+            </label>
+            <TagManager
+              tags={tagRegistry}
+              onRecolor={onRecolorTag}
+              onRename={onRenameTag}
+              onDelete={onDeleteTag}
+            />
+          </div>
+
+          {sync && (
+            <div className="pt-3 sm:pt-4 border-t border-white/10">
+              <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+                Cloud sync
+              </label>
+              <SyncSettings {...sync} />
+            </div>
+          )}
+
+          <div className="pt-3 sm:pt-4 border-t border-white/10">
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Backup
+            </label>
+            <div className="flex space-x-2">
+              <button
+                onClick={onExport}
+                className="flex-1 flex items-center justify-center space-x-2 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/80 hover:bg-white/10 transition-all duration-200 text-sm"
+              >
+                <Download size={14} />
+                <span>Export</span>
+              </button>
+              <label className="flex-1 flex items-center justify-center space-x-2 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/80 hover:bg-white/10 transition-all duration-200 text-sm cursor-pointer">
+                <Upload size={14} />
+                <span>Import</span>
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
+              </label>
+            </div>
+
+            {pendingImport && (
+              <div className="mt-2 p-3 rounded-lg bg-blue-500/10 border border-blue-400/30 text-xs text-blue-200">
+                <p className="mb-2">
+                  Found {pendingImport.tasks.length} tasks and {pendingImport.sessionHistory.length} sessions.
+                  Merge adds new ones to yours, replace overwrites everything.
+                </p>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => onImport('merge')}
+                    className="flex-1 px-2 py-1 rounded bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 transition-all duration-200"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => onImport('replace')}
+                    className="flex-1 px-2 py-1 rounded bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-all duration-200"
+                  >
+                    Replace
+                  </button>
+                  <button
+                    onClick={onCancelImport}
+                    className="flex-1 px-2 py-1 rounded bg-white/10 text-white/60 hover:bg-white/20 transition-all duration-200"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {importError && (
+              <p className="mt-2 text-xs text-red-300">{importError}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-center mt-4 sm:mt-6">
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="w-10 h-10 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 backdrop-blur-xl shadow-lg shadow-blue-500/20 transition-all duration-300 transform hover:scale-105 active:scale-95 flex items-center justify-center"
+          >
+            <Check size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SettingsView;
@@ -0,0 +1,49 @@
+import { X } from 'lucide-react';
+import { formatCombo, SHORTCUT_ACTIONS, type ShortcutBindings } from '../lib/shortcuts';
+
+function ShortcutHelp({
+  bindings,
+  onClose
+}: {
+  bindings: ShortcutBindings;
+  onClose: () => void;
+}) {
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-40 p-3 sm:p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-sm w-full shadow-2xl max-h-[85vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-white/90">Keyboard shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div className="space-y-2">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between text-sm">
+              <span className="text-white/70">{label}</span>
+              {bindings[action] ? (
+                <kbd className="px-2 py-0.5 rounded bg-white/10 border border-white/20 text-white/80 text-xs font-mono">
+                  {formatCombo(bindings[action])}
+                </kbd>
+              ) : (
+                <span className="text-white/30 text-xs">Not set</span>
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-white/40 text-xs mt-4">Change these in Settings.</p>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutHelp;
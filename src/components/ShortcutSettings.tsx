@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { eventToCombo, formatCombo, SHORTCUT_ACTIONS, type ShortcutAction, type ShortcutBindings } from '../lib/shortcuts';
+
+function ShortcutSettings({
+  bindings,
+  onRebind,
+  onReset
+}: {
+  bindings: ShortcutBindings;
+  onRebind: (action: ShortcutAction, combo: string) => void;
+  onReset: () => void;
+}) {
+  // Action waiting for its new key combination
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  const handleKeyDown = (e: React.KeyboardEvent, action: ShortcutAction) => {
+    if (recording !== action) return;
+    // Keep the key press away from the global shortcut handler
+    e.preventDefault();
+    e.stopPropagation();
+    const combo = eventToCombo(e.nativeEvent);
+    if (!combo) return;
+    if (combo !== 'Escape' || action === 'closeModal') onRebind(action, combo);
+    setRecording(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      {SHORTCUT_ACTIONS.map(({ action, label }) => (
+        <div key={action} className="flex items-center justify-between text-xs">
+          <span className="text-white/70">{label}</span>
+          <button
+            onClick={() => setRecording(recording === action ? null : action)}
+            onKeyDown={(e) => handleKeyDown(e, action)}
+            onBlur={() => setRecording(null)}
+            className={`min-w-[64px] px-2 py-1 rounded border font-mono transition-all duration-200 ${
+              recording === action
+                ? 'bg-blue-500/20 border-blue-400/40 text-blue-200'
+                : 'bg-white/5 border-white/20 text-white/80 hover:bg-white/10'
+            }`}
+          >
+            {recording === action ? 'Press keys' : bindings[action] ? formatCombo(bindings[action]) : 'Not set'}
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={onReset}
+        className="mt-2 text-white/50 hover:text-white/80 transition-all duration-200 text-xs"
+      >
+        Restore defaults
+      </button>
+    </div>
+  );
+}
+
+export default ShortcutSettings;
@@ -0,0 +1,304 @@
+import { useMemo, useState } from 'react';
+import { CalendarDays, FileSpreadsheet, X } from 'lucide-react';
+import type { FocusGoal, SessionRecord, Task } from '../types';
+import {
+  type FocusBucket,
+  getAverageSessionsPerDay,
+  getDailyFocus,
+  getFocusByTag,
+  getFocusByTask,
+  getFocusByWeightage,
+  getTotalFocusMinutes,
+  getWeeklyFocus
+} from '../lib/stats';
+import { getGoalStreaks } from '../lib/goals';
+import { getWeightageColor } from '../lib/weightage';
+import { getCompletedFocusSessions, sessionsToCsv, sessionsToICalendar } from '../lib/sessionExport';
+import { downloadFile, fileDateStamp } from '../lib/download';
+import { getEstimateAccuracy, isOverEstimate } from '../lib/tasks';
+import {
+  getAverageInterruptionsPerSession,
+  getInterruptionTotals,
+  getInterruptionsByTask,
+  getRecentFocusSessions,
+  INTERRUPTION_TYPES
+} from '../lib/interruptions';
+
+type Range = 'day' | 'week';
+type Breakdown = 'task' | 'tag' | 'weightage';
+
+const formatMinutes = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+};
+
+function StatsView({
+  tasks,
+  sessionHistory,
+  dailyGoal,
+  dayStartHour,
+  onClose
+}: {
+  tasks: Task[];
+  sessionHistory: SessionRecord[];
+  dailyGoal: FocusGoal; // with a goal set, streaks count the days it was reached
+  dayStartHour: number;
+  onClose: () => void;
+}) {
+  const [range, setRange] = useState<Range>('day');
+  const [breakdown, setBreakdown] = useState<Breakdown>('task');
+
+  const stats = useMemo(() => {
+    const now = Date.now();
+    const daily = getDailyFocus(sessionHistory, 7, now, dayStartHour);
+    const weekly = getWeeklyFocus(sessionHistory, 8, now, dayStartHour);
+    return {
+      daily,
+      weekly,
+      today: daily[daily.length - 1],
+      thisWeek: weekly[weekly.length - 1],
+      total: getTotalFocusMinutes(sessionHistory),
+      streaks: getGoalStreaks(sessionHistory, dailyGoal, now, dayStartHour),
+      averageSessions: getAverageSessionsPerDay(sessionHistory, dayStartHour),
+      byTask: getFocusByTask(sessionHistory, tasks),
+      byTag: getFocusByTag(sessionHistory, tasks),
+      byWeightage: getFocusByWeightage(sessionHistory, tasks),
+      interruptionTotals: getInterruptionTotals(sessionHistory),
+      interruptionsPerSession: getAverageInterruptionsPerSession(sessionHistory),
+      interruptionsByTask: getInterruptionsByTask(sessionHistory, tasks),
+      recentSessions: getRecentFocusSessions(sessionHistory, 5)
+    };
+  }, [sessionHistory, tasks, dailyGoal, dayStartHour]);
+
+  const chartBuckets = range === 'day' ? stats.daily : stats.weekly;
+  const chartMax = Math.max(1, ...chartBuckets.map(bucket => bucket.minutes));
+
+  const breakdownBuckets: FocusBucket[] = {
+    task: stats.byTask,
+    tag: stats.byTag,
+    weightage: stats.byWeightage
+  }[breakdown];
+  const breakdownMax = Math.max(1, ...breakdownBuckets.map(bucket => bucket.minutes));
+
+  const hasCompletedSessions = getCompletedFocusSessions(sessionHistory).length > 0;
+
+  const exportCsv = () => {
+    downloadFile(`focus-sessions-${fileDateStamp()}.csv`, sessionsToCsv(sessionHistory, tasks), 'text/csv');
+  };
+
+  const exportICalendar = () => {
+    downloadFile(`focus-sessions-${fileDateStamp()}.ics`, sessionsToICalendar(sessionHistory, tasks), 'text/calendar');
+  };
+
+  const estimateAccuracy = getEstimateAccuracy(tasks);
+  const overEstimateCount = tasks.filter(isOverEstimate).length;
+
+  const summary = [
+    { label: 'Today', value: formatMinutes(stats.today.minutes) },
+    { label: 'This week', value: formatMinutes(stats.thisWeek.minutes) },
+    { label: 'All time', value: formatMinutes(stats.total) },
+    { label: 'Streak', value: `${stats.streaks.current}d` },
+    { label: 'Best streak', value: `${stats.streaks.longest}d` },
+    { label: 'Avg / day', value: stats.averageSessions.toFixed(1) }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-30 p-3 sm:p-4">
+      <div className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-md w-full shadow-2xl max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between mb-4 sm:mb-6">
+          <h2 className="text-lg font-medium text-white/90">Statistics</h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 sm:space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-3 gap-2">
+            {summary.map(item => (
+              <div key={item.label} className="bg-white/5 border border-white/10 rounded-lg p-2 text-center">
+                <p className="text-white/90 font-medium text-sm">{item.value}</p>
+                <p className="text-white/50 text-xs">{item.label}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Estimates */}
+          <div className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs">
+            <span className="text-white/60">
+              Estimate accuracy{' '}
+              <span className="text-white/90 font-medium">
+                {estimateAccuracy === null ? '—' : `${estimateAccuracy}%`}
+              </span>
+            </span>
+            <span className={overEstimateCount > 0 ? 'text-red-300' : 'text-white/50'}>
+              {overEstimateCount} over estimate
+            </span>
+          </div>
+
+          {/* Focus time chart */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-white/70">Focus time</h3>
+              <div className="flex bg-white/5 border border-white/10 rounded-full p-0.5 text-xs">
+                {(['day', 'week'] as Range[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setRange(option)}
+                    className={`px-3 py-1 rounded-full transition-all duration-200 ${
+                      range === option ? 'bg-blue-500/30 text-blue-200' : 'text-white/50 hover:text-white/80'
+                    }`}
+                  >
+                    {option === 'day' ? 'Daily' : 'Weekly'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-end justify-between gap-1 h-32">
+              {chartBuckets.map(bucket => (
+                <div key={bucket.key} className="flex-1 flex flex-col items-center justify-end h-full min-w-0">
+                  <span className="text-[10px] text-white/50 mb-1">
+                    {bucket.minutes > 0 ? formatMinutes(bucket.minutes) : ''}
+                  </span>
+                  <div
+                    className="w-full max-w-[24px] rounded-t bg-blue-400/60 transition-all duration-500"
+                    style={{ height: `${(bucket.minutes / chartMax) * 100}%`, minHeight: bucket.minutes > 0 ? 2 : 0 }}
+                    title={`${formatMinutes(bucket.minutes)} · ${bucket.sessions} sessions`}
+                  />
+                  <span className="text-[10px] text-white/40 mt-1 truncate w-full text-center">{bucket.label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Breakdown */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-white/70">Breakdown</h3>
+              <div className="flex bg-white/5 border border-white/10 rounded-full p-0.5 text-xs">
+                {(['task', 'tag', 'weightage'] as Breakdown[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setBreakdown(option)}
+                    className={`px-3 py-1 rounded-full capitalize transition-all duration-200 ${
+                      breakdown === option ? 'bg-blue-500/30 text-blue-200' : 'text-white/50 hover:text-white/80'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {breakdownBuckets.every(bucket => bucket.minutes === 0) ? (
+              <p className="text-white/40 text-xs text-center py-4">No focus sessions recorded yet</p>
+            ) : (
+              <div className="space-y-2">
+                {breakdownBuckets.map(bucket => (
+                  <div key={bucket.key}>
+                    <div className="flex items-center justify-between text-xs mb-1">
+                      {breakdown === 'weightage' ? (
+                        <span className={`px-2 py-0.5 rounded-full border ${getWeightageColor(bucket.key)}`}>
+                          {bucket.label}
+                        </span>
+                      ) : (
+                        <span className="text-white/80 truncate">{bucket.label}</span>
+                      )}
+                      <span className="text-white/50 ml-2 shrink-0">
+                        {formatMinutes(bucket.minutes)} · {bucket.sessions}
+                      </span>
+                    </div>
+                    <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-400/70 rounded-full"
+                        style={{ width: `${(bucket.minutes / breakdownMax) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Interruptions */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-white/70">Interruptions</h3>
+              <span className="text-white/50 text-xs">{stats.interruptionsPerSession.toFixed(1)} per session</span>
+            </div>
+            <div className="flex flex-wrap gap-1 mb-3">
+              {INTERRUPTION_TYPES.map(({ type, label }) => (
+                <span key={type} className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-white/70 text-xs">
+                  {label} {stats.interruptionTotals[type]}
+                </span>
+              ))}
+              {stats.interruptionTotals.unspecified > 0 && (
+                <span className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-white/50 text-xs">
+                  Unspecified {stats.interruptionTotals.unspecified}
+                </span>
+              )}
+            </div>
+            {stats.interruptionsByTask.length === 0 ? (
+              <p className="text-white/40 text-xs text-center py-2">No interruptions recorded yet</p>
+            ) : (
+              <div className="space-y-1">
+                {stats.interruptionsByTask.map(bucket => (
+                  <div key={bucket.key} className="flex items-center justify-between text-xs">
+                    <span className="text-white/80 truncate">{bucket.label}</span>
+                    <span className="text-white/50 ml-2 shrink-0">
+                      {bucket.count} · {formatMinutes(bucket.pausedMinutes)} paused
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {stats.recentSessions.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-white/10 space-y-1">
+                <p className="text-white/50 text-xs mb-1">Recent sessions</p>
+                {stats.recentSessions.map(record => (
+                  <div key={record.id} className="flex items-center justify-between text-xs">
+                    <span className="text-white/70 truncate">
+                      {tasks.find(task => task.id === record.taskId)?.title ?? 'Deleted task'}
+                    </span>
+                    <span className="text-white/50 ml-2 shrink-0">
+                      {new Date(record.startedAt).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                      {' · '}
+                      {record.pauses.length} {record.pauses.length === 1 ? 'interruption' : 'interruptions'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Export */}
+        <div className="flex space-x-2 pt-4 mt-4 border-t border-white/10">
+          <button
+            onClick={exportCsv}
+            disabled={!hasCompletedSessions}
+            className="flex-1 flex items-center justify-center space-x-2 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/80 hover:bg-white/10 transition-all duration-200 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileSpreadsheet size={14} />
+            <span>Export CSV</span>
+          </button>
+          <button
+            onClick={exportICalendar}
+            disabled={!hasCompletedSessions}
+            className="flex-1 flex items-center justify-center space-x-2 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/80 hover:bg-white/10 transition-all duration-200 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CalendarDays size={14} />
+            <span>Export .ics</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default StatsView;
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+
+export type SyncStatus =
+  | { state: 'idle'; lastSyncedAt: number | null }
+  | { state: 'syncing' }
+  | { state: 'offline' }
+  | { state: 'error'; message: string };
+
+const describeStatus = (status: SyncStatus, queued: number) => {
+  const pending = queued > 0 ? ` · ${queued} ${queued === 1 ? 'change' : 'changes'} waiting` : '';
+  switch (status.state) {
+    case 'syncing':
+      return 'Syncing…';
+    case 'offline':
+      return `Offline${pending}`;
+    case 'error':
+      return `Sync failed: ${status.message}${pending}`;
+    default:
+      return status.lastSyncedAt
+        ? `Synced at ${new Date(status.lastSyncedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}${pending}`
+        : `Not synced yet${pending}`;
+  }
+};
+
+function SyncSettings({
+  email,
+  status,
+  queued,
+  onSignIn,
+  onSignOut,
+  onSyncNow
+}: {
+  email: string | null; // signed-in account, null when signed out
+  status: SyncStatus;
+  queued: number;
+  onSignIn: (email: string) => Promise<void>;
+  onSignOut: () => void;
+  onSyncNow: () => void;
+}) {
+  const [address, setAddress] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const sendLink = async () => {
+    if (!address.trim()) return;
+    setSending(true);
+    try {
+      await onSignIn(address.trim());
+      setMessage('Check your email for a sign-in link.');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not send the sign-in link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!email) {
+    return (
+      <div className="space-y-2">
+        <p className="text-white/50 text-xs">
+          Sign in to sync tasks, history and settings across devices. Everything keeps working offline.
+        </p>
+        <div className="flex space-x-2">
+          <input
+            type="email"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') sendLink();
+            }}
+            placeholder="you@example.com"
+            className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+          />
+          <button
+            onClick={sendLink}
+            disabled={sending || !address.trim()}
+            className="px-3 py-2 rounded-lg bg-blue-500/20 border border-blue-400/40 text-blue-300 hover:bg-blue-500/30 transition-all duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send link
+          </button>
+        </div>
+        {message && <p className="text-white/60 text-xs">{message}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-sm text-white/80">
+        {status.state === 'offline' || status.state === 'error'
+          ? <CloudOff size={14} className="text-white/50 shrink-0" />
+          : <Cloud size={14} className="text-blue-300 shrink-0" />}
+        <span className="truncate">{email}</span>
+      </div>
+      <p className={`text-xs ${status.state === 'error' ? 'text-red-300' : 'text-white/50'}`}>
+        {describeStatus(status, queued)}
+      </p>
+      <div className="flex space-x-2">
+        <button
+          onClick={onSyncNow}
+          disabled={status.state === 'syncing'}
+          className="flex-1 flex items-center justify-center space-x-2 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/80 hover:bg-white/10 transition-all duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw size={14} className={status.state === 'syncing' ? 'animate-spin' : ''} />
+          <span>Sync now</span>
+        </button>
+        <button
+          onClick={onSignOut}
+          className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/80 hover:bg-white/10 transition-all duration-200 text-sm"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default SyncSettings;
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import type { TagColor, TagDefinition } from '../types';
+import { TAG_COLORS, TAG_SWATCH_CLASSES } from '../lib/tags';
+
+function TagRow({
+  tag,
+  onRecolor,
+  onRename,
+  onDelete
+}: {
+  tag: TagDefinition;
+  onRecolor: (color: TagColor) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}) {
+  const [name, setName] = useState(tag.name);
+  const [showColors, setShowColors] = useState(false);
+
+  const commitRename = () => {
+    if (name.trim() && name.trim() !== tag.name) {
+      onRename(name.trim());
+    } else {
+      setName(tag.name);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => setShowColors(!showColors)}
+          title="Change color"
+          className={`w-4 h-4 rounded-full shrink-0 ${TAG_SWATCH_CLASSES[tag.color]}`}
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') {
+              // Revert the name without closing the settings dialog
+              e.stopPropagation();
+              setName(tag.name);
+            }
+          }}
+          title="Rename, or type an existing tag name to merge"
+          className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-lg px-2 py-1 text-white/90 focus:outline-none focus:border-white/40 transition-all duration-200 text-xs"
+        />
+        <button
+          onClick={onDelete}
+          title="Remove from all tasks"
+          className="w-6 h-6 rounded-full bg-red-500/20 border border-red-400/40 text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all duration-200 flex items-center justify-center shrink-0"
+        >
+          <Trash2 size={10} />
+        </button>
+      </div>
+      {showColors && (
+        <div className="flex items-center space-x-1.5 mt-1.5 ml-6">
+          {TAG_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => {
+                onRecolor(color);
+                setShowColors(false);
+              }}
+              className={`w-4 h-4 rounded-full ${TAG_SWATCH_CLASSES[color]} ${
+                color === tag.color ? 'ring-2 ring-white/60 ring-offset-1 ring-offset-gray-900' : 'opacity-70 hover:opacity-100'
+              }`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TagManager({
+  tags,
+  onRecolor,
+  onRename,
+  onDelete
+}: {
+  tags: TagDefinition[];
+  onRecolor: (name: string, color: TagColor) => void;
+  onRename: (from: string, to: string) => void;
+  onDelete: (name: string) => void;
+}) {
+  if (tags.length === 0) {
+    return <p className="text-white/40 text-xs">Tags you add to tasks show up here</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-48 overflow-y-auto pr-1">
+      {tags.map(tag => (
+        <TagRow
+          key={tag.name}
+          tag={tag}
+          onRecolor={color => onRecolor(tag.name, color)}
+          onRename={name => onRename(tag.name, name)}
+          onDelete={() => onDelete(tag.name)}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default TagManager;
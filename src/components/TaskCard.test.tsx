@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Task } from '../types';
+import TaskCard from './TaskCard';
+
+afterEach(cleanup);
+
+const task: Task = {
+  id: 'a',
+  title: 'Write report',
+  duration: 25,
+  completed: false,
+  sessions: 1,
+  weightage: 'high',
+  tags: ['work'],
+  estimatedPomodoros: 3,
+  subtasks: [
+    { id: 's1', title: 'Outline', done: true },
+    { id: 's2', title: 'Draft', done: false }
+  ]
+};
+
+const card = (props: Partial<Parameters<typeof TaskCard>[0]> = {}) => {
+  const handlers = {
+    onPrevious: vi.fn(),
+    onNext: vi.fn(),
+    onToggleSubtask: vi.fn(),
+    onComplete: vi.fn(),
+    onDismissCompletion: vi.fn(),
+    onEdit: vi.fn(),
+    onDelete: vi.fn()
+  };
+  render(
+    <TaskCard
+      task={task}
+      focusMinutes={25}
+      position={2}
+      total={3}
+      tagRegistry={[]}
+      hasPrevious
+      hasNext={false}
+      showCompletionPrompt={false}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe('TaskCard', () => {
+  it('shows the task with its progress and place in the rotation', () => {
+    card();
+    expect(screen.getByRole('heading', { name: 'Write report' })).toBeTruthy();
+    expect(screen.getByText('25min')).toBeTruthy();
+    expect(screen.getByText('1/3 pomodoros')).toBeTruthy();
+    expect(screen.getByText('2/3')).toBeTruthy();
+    expect(screen.getByText('work')).toBeTruthy();
+  });
+
+  it('moves between tasks only where there is one', () => {
+    const { onPrevious, onNext } = card();
+    fireEvent.click(screen.getByRole('button', { name: 'Previous task' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next task' }));
+    expect(onPrevious).toHaveBeenCalledOnce();
+    expect(onNext).not.toHaveBeenCalled();
+  });
+
+  it('toggles a checklist step by its id', () => {
+    const { onToggleSubtask } = card();
+    fireEvent.click(screen.getByRole('button', { name: 'Draft' }));
+    expect(onToggleSubtask).toHaveBeenCalledWith('s2');
+  });
+
+  it('offers to complete the task once every step is done', () => {
+    const done = { ...task, subtasks: task.subtasks!.map(subtask => ({ ...subtask, done: true })) };
+    const { onComplete, onDismissCompletion } = card({ task: done, showCompletionPrompt: true });
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Not yet' }));
+    expect(onComplete).toHaveBeenCalledOnce();
+    expect(onDismissCompletion).toHaveBeenCalledOnce();
+  });
+
+  it('leaves the prompt out while a step is open', () => {
+    card({ showCompletionPrompt: true });
+    expect(screen.queryByText('All steps done. Mark task complete?')).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { Check, ChevronLeft, ChevronRight, CreditCard as Edit3, Trash2 } from 'lucide-react';
+import type { TagDefinition, Task } from '../types';
+import { getTagColorClass } from '../lib/tags';
+import { areAllSubtasksDone, isOverEstimate } from '../lib/tasks';
+import { getWeightageColor } from '../lib/weightage';
+import EstimateProgress from './EstimateProgress';
+
+// The task being worked on, with its checklist and quick actions
+function TaskCard({
+  task,
+  focusMinutes,
+  position,
+  total,
+  tagRegistry,
+  hasPrevious,
+  hasNext,
+  showCompletionPrompt,
+  onPrevious,
+  onNext,
+  onToggleSubtask,
+  onComplete,
+  onDismissCompletion,
+  onEdit,
+  onDelete
+}: {
+  task: Task;
+  focusMinutes: number;
+  position: number; // 1-based place among the open tasks
+  total: number;
+  tagRegistry: TagDefinition[];
+  hasPrevious: boolean;
+  hasNext: boolean;
+  showCompletionPrompt: boolean; // offer to complete once every step is done
+  onPrevious: () => void;
+  onNext: () => void;
+  onToggleSubtask: (subtaskId: string) => void;
+  onComplete: () => void;
+  onDismissCompletion: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="mb-4 sm:mb-6">
+      <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 mb-3">
+        <div className="flex items-center justify-between mb-2 sm:mb-3">
+          <button
+            onClick={onPrevious}
+            aria-label="Previous task"
+            disabled={!hasPrevious}
+            className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-white/10 border border-white/20 text-white/60 disabled:opacity-30 disabled:cursor-not-allowed hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
+          >
+            <ChevronLeft size={12} className="sm:w-3.5 sm:h-3.5" />
+          </button>
+          
+          <div className="flex-1 min-w-0 mx-2 sm:mx-3">
+            <h1 className="text-base sm:text-lg font-medium text-white/90 mb-1 truncate">
+              {task.title}
+            </h1>
+            {task.description && (
+              <p className="text-white/60 text-xs sm:text-sm line-clamp-2 mb-1">{task.description}</p>
+            )}
+            <div className="flex flex-wrap items-center justify-center gap-2 text-xs text-white/60 mb-2">
+              <span>{focusMinutes}min</span>
+              <span>•</span>
+              <span className={isOverEstimate(task) ? 'text-red-300' : ''}>
+                {task.estimatedPomodoros
+                  ? `${task.sessions}/${task.estimatedPomodoros} pomodoros`
+                  : `${task.sessions} sessions`}
+              </span>
+              <span>•</span>
+              <span>{position}/{total}</span>
+            </div>
+            
+            {/* Weightage and Tags */}
+            <div className="flex flex-wrap items-center justify-center gap-1 mb-2">
+              <span className={`px-2 py-1 rounded-full text-xs border backdrop-blur-xl ${getWeightageColor(task.weightage)}`}>
+                {task.weightage}
+              </span>
+              {(task.tags || []).map((tag, index) => (
+                <span key={index} className={`px-2 py-1 rounded-full text-xs border backdrop-blur-xl ${getTagColorClass(tagRegistry, tag)}`}>
+                  {tag}
+                </span>
+              ))}
+            </div>
+
+            <EstimateProgress task={task} />
+
+            {/* Checklist */}
+            {(task.subtasks ?? []).length > 0 && (
+              <div className="mt-3 space-y-1 text-left">
+                {task.subtasks!.map(subtask => (
+                  <button
+                    key={subtask.id}
+                    onClick={() => onToggleSubtask(subtask.id)}
+                    className="w-full flex items-center space-x-2 px-2 py-1 rounded-md hover:bg-white/5 transition-all duration-200 text-xs"
+                  >
+                    <span className={`w-3.5 h-3.5 rounded border flex items-center justify-center shrink-0 ${
+                      subtask.done ? 'bg-green-500/30 border-green-400/60 text-green-300' : 'border-white/30'
+                    }`}>
+                      {subtask.done && <Check size={9} />}
+                    </span>
+                    <span className={`truncate ${subtask.done ? 'text-white/40 line-through' : 'text-white/80'}`}>
+                      {subtask.title}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {showCompletionPrompt && areAllSubtasksDone(task) && (
+              <div className="mt-3 p-2 rounded-lg bg-green-500/10 border border-green-400/30 text-xs text-green-200 flex items-center justify-between">
+                <span>All steps done. Mark task complete?</span>
+                <div className="flex space-x-1 ml-2 shrink-0">
+                  <button
+                    onClick={onComplete}
+                    className="px-2 py-1 rounded bg-green-500/20 text-green-300 hover:bg-green-500/30 transition-all duration-200"
+                  >
+                    Done
+                  </button>
+                  <button
+                    onClick={onDismissCompletion}
+                    className="px-2 py-1 rounded bg-white/10 text-white/60 hover:bg-white/20 transition-all duration-200"
+                  >
+                    Not yet
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={onNext}
+            aria-label="Next task"
+            disabled={!hasNext}
+            className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-white/10 border border-white/20 text-white/60 disabled:opacity-30 disabled:cursor-not-allowed hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
+          >
+            <ChevronRight size={12} className="sm:w-3.5 sm:h-3.5" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-center space-x-2">
+          <button
+            onClick={onComplete}
+            title="Mark as done"
+            className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-green-500/20 border border-green-400/40 text-green-300 hover:bg-green-500/30 hover:text-green-200 transition-all duration-200 flex items-center justify-center"
+          >
+            <Check size={10} className="sm:w-3 sm:h-3" />
+          </button>
+          <button
+            onClick={onEdit}
+            aria-label="Edit task"
+            className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
+          >
+            <Edit3 size={10} className="sm:w-3 sm:h-3" />
+          </button>
+          <button
+            onClick={onDelete}
+            aria-label="Delete task"
+            className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-red-500/20 border border-red-400/40 text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all duration-200 flex items-center justify-center"
+          >
+            <Trash2 size={10} className="sm:w-3 sm:h-3" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TaskCard;
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Task } from '../types';
+import TaskForm from './TaskForm';
+
+afterEach(cleanup);
+
+describe('TaskForm', () => {
+  it('does not save a task without a title', () => {
+    const onSave = vi.fn();
+    render(<TaskForm task={null} tagRegistry={[]} onSave={onSave} onClose={vi.fn()} />);
+    expect(screen.getByText('New Task')).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('Enter task title...'), { target: { value: '   ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save task' }));
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it('saves a trimmed draft with the tag still being typed', () => {
+    const onSave = vi.fn();
+    render(<TaskForm task={null} tagRegistry={[]} onSave={onSave} onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByPlaceholderText('Enter task title...'), { target: { value: '  Plan week ' } });
+    fireEvent.change(screen.getByPlaceholderText('work, urgent, meeting...'), { target: { value: 'planning' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save task' }));
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Plan week',
+      description: undefined,
+      duration: 25,
+      estimatedPomodoros: undefined,
+      tags: ['planning'],
+      subtasks: []
+    }));
+  });
+
+  it('clears the estimate of an edited task', () => {
+    const task: Task = {
+      id: 'a',
+      title: 'Review',
+      duration: 30,
+      completed: false,
+      sessions: 0,
+      weightage: 'low',
+      tags: [],
+      estimatedPomodoros: 4
+    };
+    const onSave = vi.fn();
+    render(<TaskForm task={task} tagRegistry={[]} onSave={onSave} onClose={vi.fn()} />);
+    expect(screen.getByText('Edit Task')).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('No estimate'), { target: { value: '' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save task' }));
+    expect(onSave.mock.calls[0][0]).toMatchObject({ title: 'Review', duration: 30, estimatedPomodoros: undefined });
+  });
+});
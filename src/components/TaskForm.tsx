@@ -0,0 +1,349 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Plus, X } from 'lucide-react';
+import type { Subtask, TagDefinition, Task, Weightage } from '../types';
+import { getTagColorClass, normalizeTagName, suggestTags } from '../lib/tags';
+import { TIMER_PROFILES } from '../lib/timerProfiles';
+
+// What the form edits on a task
+export type TaskDraft = Pick<
+  Task,
+  'title' | 'description' | 'duration' | 'estimatedPomodoros' | 'timerProfileId' | 'weightage' | 'tags' | 'subtasks'
+>;
+
+function TaskForm({
+  task,
+  tagRegistry,
+  onSave,
+  onClose
+}: {
+  task: Task | null; // the task being edited, null for a new one
+  tagRegistry: TagDefinition[];
+  onSave: (draft: TaskDraft) => void;
+  onClose: () => void;
+}) {
+  const [title, setTitle] = useState(task?.title ?? '');
+  const [description, setDescription] = useState(task?.description ?? '');
+  const [duration, setDuration] = useState(task?.duration ?? 25);
+  // Null leaves the task without an estimate
+  const [estimate, setEstimate] = useState<number | null>(task?.estimatedPomodoros ?? null);
+  const [profileId, setProfileId] = useState(task?.timerProfileId ?? '');
+  const [weightage, setWeightage] = useState<Weightage>(task?.weightage ?? 'medium');
+  const [tags, setTags] = useState<string[]>(task?.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+  const [subtasks, setSubtasks] = useState<Subtask[]>(task?.subtasks ?? []);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+
+  // Tags chosen in the form, plus whatever is still typed in the tag input
+  const withPendingTag = (current: string[], input: string) => {
+    const name = normalizeTagName(tagRegistry, input.replace(/,/g, ''));
+    return name && !current.includes(name) ? [...current, name] : current;
+  };
+
+  const addTag = (input: string) => {
+    setTags(withPendingTag(tags, input));
+    setTagInput('');
+  };
+
+  const addSubtask = () => {
+    if (!newSubtaskTitle.trim()) return;
+    setSubtasks(prev => [
+      ...prev,
+      { id: `${Date.now()}-${prev.length}`, title: newSubtaskTitle.trim(), done: false }
+    ]);
+    setNewSubtaskTitle('');
+  };
+
+  const moveSubtask = (index: number, direction: 1 | -1) => {
+    const target = index + direction;
+    if (target < 0 || target >= subtasks.length) return;
+    const reordered = subtasks.slice();
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSubtasks(reordered);
+  };
+
+  const save = () => {
+    if (!title.trim()) return;
+    onSave({
+      title: title.trim(),
+      description: description.trim() || undefined,
+      duration,
+      estimatedPomodoros: estimate ?? undefined,
+      timerProfileId: profileId || undefined,
+      weightage,
+      tags: withPendingTag(tags, tagInput),
+      subtasks: subtasks
+        .map(subtask => ({ ...subtask, title: subtask.title.trim() }))
+        .filter(subtask => subtask.title.length > 0)
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-30 p-3 sm:p-4">
+      <div className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-sm w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-medium text-white/90 mb-4 sm:mb-6 text-center">
+          {task ? 'Edit Task' : 'New Task'}
+        </h2>
+        
+        <div className="space-y-3 sm:space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Task Title
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Enter task title..."
+              className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Description (optional)
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Add a description..."
+              rows={2}
+              className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 resize-none text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Duration (minutes)
+            </label>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setDuration(Math.max(5, duration - 5))}
+                className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+              >
+                -
+              </button>
+              <input
+                type="number"
+                value={duration}
+                onChange={(e) => setDuration(Math.max(5, Math.min(120, parseInt(e.target.value) || 5)))}
+                className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+                min="5"
+                max="120"
+              />
+              <button
+                onClick={() => setDuration(Math.min(120, duration + 5))}
+                className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+              >
+                +
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Timer profile
+            </label>
+            <select
+              value={profileId}
+              onChange={(e) => setProfileId(e.target.value)}
+              className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+            >
+              <option value="" className="bg-gray-800 text-white">Use the active profile</option>
+              {TIMER_PROFILES.map(profile => (
+                <option key={profile.id} value={profile.id} className="bg-gray-800 text-white">{profile.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Estimated pomodoros
+            </label>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setEstimate(estimate && estimate > 1 ? estimate - 1 : null)}
+                className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+              >
+                -
+              </button>
+              <input
+                type="number"
+                value={estimate ?? ''}
+                onChange={(e) => setEstimate(e.target.value ? Math.max(1, Math.min(50, parseInt(e.target.value) || 1)) : null)}
+                placeholder="No estimate"
+                className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 text-center backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+                min="1"
+                max="50"
+              />
+              <button
+                onClick={() => setEstimate(Math.min(50, (estimate ?? 0) + 1))}
+                className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 text-lg"
+              >
+                +
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Priority Level
+            </label>
+            <select
+              value={weightage}
+              onChange={(e) => setWeightage(e.target.value as Weightage)}
+              className="w-full bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+            >
+              <option value="low" className="bg-gray-800 text-white">Low Priority</option>
+              <option value="medium" className="bg-gray-800 text-white">Medium Priority</option>
+              <option value="high" className="bg-gray-800 text-white">High Priority</option>
+              <option value="critical" className="bg-gray-800 text-white">Critical</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Tags
+            </label>
+            <div className="w-full flex flex-wrap items-center gap-1 bg-white/5 border border-white/20 rounded-lg px-2 py-1.5 backdrop-blur-xl focus-within:border-white/40 transition-all duration-200">
+              {tags.map(tag => (
+                <span key={tag} className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs border ${getTagColorClass(tagRegistry, tag)}`}>
+                  <span>{tag}</span>
+                  <button
+                    onClick={() => setTags(tags.filter(t => t !== tag))}
+                    className="opacity-60 hover:opacity-100"
+                  >
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => {
+                  // A typed comma finishes the tag, like the old comma separated field
+                  if (e.target.value.includes(',')) {
+                    addTag(e.target.value);
+                  } else {
+                    setTagInput(e.target.value);
+                  }
+                }}
+                onKeyDown={(e) => {
+                  const suggestion = tagInput.trim() ? suggestTags(tagRegistry, tagInput, tags)[0] : undefined;
+                  if (e.key === 'Enter' && tagInput.trim()) {
+                    e.preventDefault();
+                    addTag(tagInput);
+                  } else if (e.key === 'Tab' && suggestion) {
+                    // Tab accepts the top suggestion
+                    e.preventDefault();
+                    addTag(suggestion.name);
+                  } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+                    setTags(tags.slice(0, -1));
+                  }
+                }}
+                placeholder={tags.length === 0 ? 'work, urgent, meeting...' : ''}
+                className="flex-1 min-w-[80px] bg-transparent px-1 py-0.5 text-white/90 focus:outline-none text-sm"
+              />
+            </div>
+            {suggestTags(tagRegistry, tagInput, tags).length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {suggestTags(tagRegistry, tagInput, tags).slice(0, 8).map(tag => (
+                  <button
+                    key={tag.name}
+                    onClick={() => addTag(tag.name)}
+                    className={`px-2 py-0.5 rounded-full text-xs border opacity-70 hover:opacity-100 transition-all duration-200 ${getTagColorClass(tagRegistry, tag.name)}`}
+                  >
+                    + {tag.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-1 sm:mb-2">
+              Checklist (optional)
+            </label>
+            {subtasks.length > 0 && (
+              <div className="space-y-1 mb-2">
+                {subtasks.map((subtask, index) => (
+                  <div key={subtask.id} className="flex items-center space-x-1">
+                    <input
+                      type="text"
+                      value={subtask.title}
+                      onChange={(e) => setSubtasks(prev => prev.map(item =>
+                        item.id === subtask.id ? { ...item, title: e.target.value } : item
+                      ))}
+                      className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-lg px-2 py-1 text-white/90 focus:outline-none focus:border-white/40 transition-all duration-200 text-xs"
+                    />
+                    <button
+                      onClick={() => moveSubtask(index, -1)}
+                      disabled={index === 0}
+                      className="w-6 h-6 rounded-full bg-white/10 border border-white/20 text-white/60 disabled:opacity-30 hover:bg-white/20 transition-all duration-200 flex items-center justify-center"
+                    >
+                      <ArrowUp size={10} />
+                    </button>
+                    <button
+                      onClick={() => moveSubtask(index, 1)}
+                      disabled={index === subtasks.length - 1}
+                      className="w-6 h-6 rounded-full bg-white/10 border border-white/20 text-white/60 disabled:opacity-30 hover:bg-white/20 transition-all duration-200 flex items-center justify-center"
+                    >
+                      <ArrowDown size={10} />
+                    </button>
+                    <button
+                      onClick={() => setSubtasks(prev => prev.filter(item => item.id !== subtask.id))}
+                      className="w-6 h-6 rounded-full bg-red-500/20 border border-red-400/40 text-red-400 hover:bg-red-500/30 transition-all duration-200 flex items-center justify-center"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={newSubtaskTitle}
+                onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addSubtask();
+                  }
+                }}
+                placeholder="Add a step..."
+                className="flex-1 bg-white/5 border border-white/20 rounded-lg px-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+              />
+              <button
+                onClick={addSubtask}
+                disabled={!newSubtaskTitle.trim()}
+                className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/80 flex items-center justify-center hover:bg-white/20 transition-all duration-200 disabled:opacity-50"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-center space-x-3 mt-4 sm:mt-6">
+          <button
+            onClick={onClose}
+            aria-label="Cancel"
+            className="w-10 h-10 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-white/10 hover:text-white/80 flex items-center justify-center"
+          >
+            <X size={16} />
+          </button>
+          <button
+            onClick={save}
+            aria-label="Save task"
+            disabled={!title.trim()}
+            className="w-10 h-10 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 backdrop-blur-xl shadow-lg shadow-blue-500/20 transition-all duration-300 transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+          >
+            <Check size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TaskForm;
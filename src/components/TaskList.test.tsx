@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Task } from '../types';
+import { EMPTY_TASK_FILTER } from '../lib/taskFilter';
+import { DEFAULT_TIMER_SETTINGS } from '../lib/timerProfiles';
+import TaskList from './TaskList';
+
+afterEach(cleanup);
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  duration: 25,
+  completed: false,
+  sessions: 0,
+  weightage: 'medium',
+  tags: [],
+  ...changes
+});
+
+const tasks = [task('a'), task('b', { completed: true }), task('c', { tags: ['home'] })];
+
+const list = (props: Partial<Parameters<typeof TaskList>[0]> = {}) => {
+  const handlers = {
+    onViewChange: vi.fn(),
+    onFilterChange: vi.fn(),
+    onGroupingChange: vi.fn(),
+    onSelect: vi.fn(),
+    onAdd: vi.fn(),
+    onEdit: vi.fn(),
+    onComplete: vi.fn(),
+    onDelete: vi.fn(),
+    onRestore: vi.fn(),
+    onReorder: vi.fn(),
+    onClose: vi.fn()
+  };
+  render(
+    <TaskList
+      tasks={tasks}
+      currentTaskIndex={0}
+      tagRegistry={[]}
+      timerSettings={DEFAULT_TIMER_SETTINGS}
+      view="active"
+      filter={EMPTY_TASK_FILTER}
+      grouping="none"
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe('TaskList', () => {
+  it('lists open tasks and selects one by its index in the full list', () => {
+    const { onSelect, onEdit } = list();
+    expect(screen.getByText('Open (2)')).toBeTruthy();
+    expect(screen.getByText('Done (1)')).toBeTruthy();
+    expect(screen.queryByText('Task b')).toBeNull();
+
+    expect(screen.getByRole('button', { name: 'Current' })).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+    expect(onSelect).toHaveBeenCalledWith(2);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Task c' }));
+    expect(onEdit).toHaveBeenCalledWith(tasks[2]);
+  });
+
+  it('narrows the list by the filter', () => {
+    const { onFilterChange } = list({ filter: { ...EMPTY_TASK_FILTER, tags: ['home'] } });
+    expect(screen.queryByText('Task a')).toBeNull();
+    expect(screen.getByText('Task c')).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('Search tasks...'), { target: { value: 'report' } });
+    expect(onFilterChange).toHaveBeenCalledWith({ ...EMPTY_TASK_FILTER, tags: ['home'], query: 'report' });
+  });
+
+  it('says when nothing matches the filter', () => {
+    list({ filter: { ...EMPTY_TASK_FILTER, query: 'nothing like this' } });
+    expect(screen.getByText('No tasks match this filter')).toBeTruthy();
+  });
+
+  it('moves a task past done ones with the arrow keys', () => {
+    const { onReorder } = list();
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Reorder Task a, use arrow keys to move' }), { key: 'ArrowDown' });
+    expect(onReorder.mock.calls[0][0].map((moved: Task) => moved.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('restores or deletes done tasks from the archive', () => {
+    const { onRestore, onDelete } = list({ view: 'archive' });
+    expect(screen.getByText('Task b')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete for good' }));
+    expect(onRestore).toHaveBeenCalledWith('b');
+    expect(onDelete).toHaveBeenCalledWith('b');
+  });
+});
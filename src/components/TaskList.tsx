@@ -0,0 +1,392 @@
+import { useState } from 'react';
+import { ArchiveRestore, Check, CreditCard as Edit3, GripVertical, Plus, Search, Trash2, X } from 'lucide-react';
+import type { TagDefinition, Task, TimerSettings, Weightage } from '../types';
+import { EMPTY_TASK_FILTER, getAllTags, groupTaskEntries, isTaskFilterActive, matchesTaskFilter, type TaskFilter, type TaskGrouping } from '../lib/taskFilter';
+import { getTagColorClass } from '../lib/tags';
+import { findAdjacentTaskIndex, isOverEstimate, moveTask, sortTasks, type TaskSortKey } from '../lib/tasks';
+import { getEffectiveProfile, getFocusMinutes } from '../lib/timerProfiles';
+import { getWeightageColor } from '../lib/weightage';
+import EstimateProgress from './EstimateProgress';
+
+export type TaskListView = 'active' | 'archive';
+
+// Open tasks, filtered, grouped and reorderable, and the archive of done ones
+function TaskList({
+  tasks,
+  currentTaskIndex,
+  tagRegistry,
+  timerSettings,
+  view,
+  filter,
+  grouping,
+  onViewChange,
+  onFilterChange,
+  onGroupingChange,
+  onSelect,
+  onAdd,
+  onEdit,
+  onComplete,
+  onDelete,
+  onRestore,
+  onReorder,
+  onClose
+}: {
+  tasks: Task[];
+  currentTaskIndex: number;
+  tagRegistry: TagDefinition[];
+  timerSettings: TimerSettings; // for the focus length of each task
+  view: TaskListView;
+  filter: TaskFilter;
+  grouping: TaskGrouping;
+  onViewChange: (view: TaskListView) => void;
+  onFilterChange: (filter: TaskFilter) => void;
+  onGroupingChange: (grouping: TaskGrouping) => void;
+  onSelect: (taskIndex: number) => void;
+  onAdd: () => void;
+  onEdit: (task: Task) => void;
+  onComplete: (taskId: string) => void;
+  onDelete: (taskId: string) => void;
+  onRestore: (taskId: string) => void;
+  onReorder: (reordered: Task[]) => void;
+  onClose: () => void;
+}) {
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dragOverTaskId, setDragOverTaskId] = useState<string | null>(null);
+
+  const activeTasks = tasks.filter(task => !task.completed);
+  const archivedTasks = tasks.filter(task => task.completed);
+  const filterActive = isTaskFilterActive(filter);
+  const inRotation = (task: Task) => matchesTaskFilter(task, filter);
+  const groups = groupTaskEntries(
+    tasks
+      .map((task, index) => ({ task, index }))
+      .filter(({ task }) => !task.completed && inRotation(task)),
+    grouping
+  );
+  const availableTags = getAllTags(activeTasks);
+
+  const dropTask = (targetId: string) => {
+    if (draggedTaskId) {
+      onReorder(moveTask(tasks, draggedTaskId, targetId));
+    }
+    setDraggedTaskId(null);
+    setDragOverTaskId(null);
+  };
+
+  // Arrow keys on the drag handle move the task, for keyboard users
+  const handleReorderKey = (e: React.KeyboardEvent, taskIndex: number) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    e.preventDefault();
+    const targetIndex = findAdjacentTaskIndex(tasks, taskIndex, e.key === 'ArrowUp' ? -1 : 1, inRotation);
+    if (targetIndex !== -1) {
+      onReorder(moveTask(tasks, tasks[taskIndex].id, tasks[targetIndex].id));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-30 p-3 sm:p-4">
+      <div className="bg-gray-900/90 backdrop-blur-xl border border-white/10 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-sm w-full shadow-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between mb-3 sm:mb-4">
+          <h2 className="text-lg font-medium text-white/90">
+            {view === 'archive' ? 'Archive' : 'All Tasks'}
+          </h2>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => onAdd()}
+              aria-label="Add task"
+              className="w-8 h-8 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 hover:bg-blue-500/30 hover:text-blue-200 transition-all duration-200 flex items-center justify-center"
+            >
+              <Plus size={14} />
+            </button>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="w-8 h-8 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+        
+        <div className="flex bg-white/5 border border-white/10 rounded-full p-0.5 text-xs mb-3 sm:mb-4">
+          <button
+            onClick={() => onViewChange('active')}
+            className={`flex-1 px-3 py-1 rounded-full transition-all duration-200 ${
+              view === 'active' ? 'bg-blue-500/30 text-blue-200' : 'text-white/50 hover:text-white/80'
+            }`}
+          >
+            Open ({activeTasks.length})
+          </button>
+          <button
+            onClick={() => onViewChange('archive')}
+            className={`flex-1 px-3 py-1 rounded-full transition-all duration-200 ${
+              view === 'archive' ? 'bg-blue-500/30 text-blue-200' : 'text-white/50 hover:text-white/80'
+            }`}
+          >
+            Done ({archivedTasks.length})
+          </button>
+        </div>
+
+        {view === 'archive' ? (
+          <div className="flex-1 overflow-y-auto space-y-2 sm:space-y-3">
+            {archivedTasks.length === 0 && (
+              <p className="text-white/40 text-xs text-center py-4">Completed tasks will show up here</p>
+            )}
+            {archivedTasks.map(task => (
+              <div
+                key={task.id}
+                className="p-3 sm:p-4 rounded-lg border bg-white/5 border-white/10 text-white/60"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="font-medium text-sm truncate flex-1 line-through decoration-white/30">{task.title}</h3>
+                  <div className="flex items-center space-x-1 ml-2">
+                    <button
+                      onClick={() => onRestore(task.id)}
+                      title="Restore"
+                      className="w-6 h-6 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 hover:bg-blue-500/30 hover:text-blue-200 transition-all duration-200 flex items-center justify-center"
+                    >
+                      <ArchiveRestore size={10} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(task.id)}
+                      title="Delete for good"
+                      className="w-6 h-6 rounded-full bg-red-500/20 border border-red-400/40 text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all duration-200 flex items-center justify-center"
+                    >
+                      <Trash2 size={10} />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between text-xs opacity-70">
+                  <span>{task.sessions} sessions</span>
+                  {task.completedAt && (
+                    <span>Done {new Date(task.completedAt).toLocaleDateString()}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <>
+            {/* Search, filter and grouping */}
+            <div className="space-y-2 mb-3">
+              <div className="relative">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/40" />
+                <input
+                  type="text"
+                  value={filter.query}
+                  onChange={(e) => onFilterChange({ ...filter, query: e.target.value })}
+                  placeholder="Search tasks..."
+                  className="w-full bg-white/5 border border-white/20 rounded-lg pl-9 pr-3 py-2 text-white/90 backdrop-blur-xl focus:outline-none focus:border-white/40 transition-all duration-200 text-sm"
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-1">
+                {(['critical', 'high', 'medium', 'low'] as Weightage[]).map(weightage => (
+                  <button
+                    key={weightage}
+                    onClick={() => onFilterChange({
+                      ...filter,
+                      weightages: filter.weightages.includes(weightage)
+                        ? filter.weightages.filter(w => w !== weightage)
+                        : [...filter.weightages, weightage]
+                    })}
+                    className={`px-2 py-0.5 rounded-full text-xs border transition-all duration-200 ${
+                      filter.weightages.includes(weightage)
+                        ? getWeightageColor(weightage)
+                        : 'bg-white/5 border-white/10 text-white/50 hover:text-white/80'
+                    }`}
+                  >
+                    {weightage}
+                  </button>
+                ))}
+                {availableTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => onFilterChange({
+                      ...filter,
+                      tags: filter.tags.includes(tag)
+                        ? filter.tags.filter(t => t !== tag)
+                        : [...filter.tags, tag]
+                    })}
+                    className={`px-2 py-0.5 rounded-full text-xs border transition-all duration-200 ${
+                      filter.tags.includes(tag)
+                        ? getTagColorClass(tagRegistry, tag)
+                        : 'bg-white/5 border-white/10 text-white/50 hover:text-white/80'
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+                {filterActive && (
+                  <button
+                    onClick={() => onFilterChange(EMPTY_TASK_FILTER)}
+                    className="px-2 py-0.5 rounded-full text-xs text-white/50 hover:text-white/80 transition-all duration-200"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center justify-end space-x-1 text-xs text-white/50">
+                <span className="mr-1">Group by</span>
+                {([
+                  ['none', 'None'],
+                  ['tag', 'Tag'],
+                  ['weightage', 'Priority']
+                ] as [TaskGrouping, string][]).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => onGroupingChange(key)}
+                    className={`px-2 py-1 rounded border transition-all duration-200 ${
+                      grouping === key
+                        ? 'bg-blue-500/20 border-blue-400/40 text-blue-300'
+                        : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10 hover:text-white/80'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end space-x-1 mb-2 text-xs text-white/50">
+              <span className="mr-1">Sort by</span>
+              {([
+                ['weightage', 'Priority'],
+                ['remaining', 'Remaining'],
+                ['tag', 'Tag']
+              ] as [TaskSortKey, string][]).map(([key, label]) => (
+                <button
+                  key={key}
+                  onClick={() => onReorder(sortTasks(tasks, key))}
+                  className="px-2 py-1 rounded bg-white/5 border border-white/10 text-white/60 hover:bg-white/10 hover:text-white/80 transition-all duration-200"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-2 sm:space-y-3">
+              {groups.every(group => group.entries.length === 0) && (
+                <p className="text-white/40 text-xs text-center py-4">No tasks match this filter</p>
+              )}
+              {groups.map(group => (
+                <div key={group.key} className="space-y-2 sm:space-y-3">
+                  {group.label && (
+                    <h4 className="text-xs uppercase tracking-wide text-white/40 pt-1">{group.label}</h4>
+                  )}
+                  {group.entries.map(({ task, index }) => (
+                    <div
+                      key={`${group.key}-${task.id}`}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggedTaskId(task.id);
+                      }}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDragOverTaskId(task.id);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        dropTask(task.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedTaskId(null);
+                        setDragOverTaskId(null);
+                      }}
+                      className={`p-3 sm:p-4 rounded-lg border transition-all duration-200 ${
+                        index === currentTaskIndex
+                          ? 'bg-blue-500/20 border-blue-400/40 text-blue-300'
+                          : 'bg-white/5 border-white/10 text-white/80 hover:bg-white/10'
+                      } ${draggedTaskId === task.id ? 'opacity-40' : ''} ${
+                        dragOverTaskId === task.id && draggedTaskId !== task.id ? 'ring-1 ring-blue-400/60' : ''
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <button
+                          onKeyDown={(e) => handleReorderKey(e, index)}
+                          aria-label={`Reorder ${task.title}, use arrow keys to move`}
+                          title="Drag or use arrow keys to reorder"
+                          className="-ml-1 mr-1 text-white/30 hover:text-white/70 focus:text-white/80 focus:outline-none cursor-grab active:cursor-grabbing"
+                        >
+                          <GripVertical size={14} />
+                        </button>
+                        <h3 className="font-medium text-sm truncate flex-1">{task.title}</h3>
+                        <div className="flex items-center space-x-1 ml-2">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onComplete(task.id);
+                            }}
+                            title="Mark as done"
+                            className="w-6 h-6 rounded-full bg-green-500/20 border border-green-400/40 text-green-300 hover:bg-green-500/30 hover:text-green-200 transition-all duration-200 flex items-center justify-center"
+                          >
+                            <Check size={10} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onEdit(task);
+                            }}
+                            aria-label={`Edit ${task.title}`}
+                            className="w-6 h-6 rounded-full bg-white/10 border border-white/20 text-white/60 hover:bg-white/20 hover:text-white/80 transition-all duration-200 flex items-center justify-center"
+                          >
+                            <Edit3 size={10} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDelete(task.id);
+                            }}
+                            aria-label={`Delete ${task.title}`}
+                            className="w-6 h-6 rounded-full bg-red-500/20 border border-red-400/40 text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all duration-200 flex items-center justify-center"
+                          >
+                            <Trash2 size={10} />
+                          </button>
+                          <span className="text-xs opacity-70 ml-1">{getFocusMinutes(getEffectiveProfile(timerSettings, task), task)}min</span>
+                        </div>
+                      </div>
+                      {task.description && (
+                        <p className="text-xs opacity-70 line-clamp-2 mb-1">{task.description}</p>
+                      )}
+                      
+                      {/* Weightage and Tags in Task List */}
+                      <div className="flex flex-wrap items-center gap-1 mb-2">
+                        <span className={`px-2 py-1 rounded-full text-xs border backdrop-blur-xl ${getWeightageColor(task.weightage)}`}>
+                          {task.weightage}
+                        </span>
+                        {(task.tags || []).map((tag, tagIndex) => (
+                          <span key={tagIndex} className={`px-2 py-1 rounded-full text-xs border backdrop-blur-xl ${getTagColorClass(tagRegistry, tag)}`}>
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                      
+                      <div className="mb-2">
+                        <EstimateProgress task={task} />
+                      </div>
+
+                      <div className="flex items-center justify-between text-xs opacity-60">
+                        <span className={isOverEstimate(task) ? 'text-red-300' : ''}>
+                          {task.estimatedPomodoros
+                            ? `${task.sessions}/${task.estimatedPomodoros} pomodoros`
+                            : `${task.sessions} sessions`}
+                        </span>
+                        <button
+                          onClick={() => onSelect(index)}
+                          className="px-2 py-1 rounded bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 transition-all duration-200"
+                        >
+                          {index === currentTaskIndex ? 'Current' : 'Select'}
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TaskList;
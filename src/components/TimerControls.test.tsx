@@ -0,0 +1,36 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import TimerControls from './TimerControls';
+
+afterEach(cleanup);
+
+const controls = (props: Partial<Parameters<typeof TimerControls>[0]> = {}) => {
+  const handlers = { onStart: vi.fn(), onPause: vi.fn(), onReset: vi.fn(), onStop: vi.fn() };
+  render(<TimerControls isActive={false} canStart canReset={false} {...handlers} {...props} />);
+  return handlers;
+};
+
+describe('TimerControls', () => {
+  it('offers start and reset while stopped', () => {
+    const { onStart } = controls();
+    fireEvent.click(screen.getByRole('button', { name: 'Start' }));
+    expect(onStart).toHaveBeenCalledOnce();
+    expect(screen.getByRole('button', { name: 'Reset' })).toHaveProperty('disabled', true);
+    expect(screen.queryByRole('button', { name: 'Stop' })).toBeNull();
+  });
+
+  it('cannot start without a task', () => {
+    controls({ canStart: false });
+    expect(screen.getByRole('button', { name: 'Start' })).toHaveProperty('disabled', true);
+  });
+
+  it('offers pause and stop while running', () => {
+    const { onPause, onStop } = controls({ isActive: true, canReset: true });
+    expect(screen.queryByRole('button', { name: 'Start' })).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Pause' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Stop' }));
+    expect(onPause).toHaveBeenCalledOnce();
+    expect(onStop).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,64 @@
+import { Pause, Play, RotateCcw, Square } from 'lucide-react';
+
+// Start or pause, reset, and stop while running
+function TimerControls({
+  isActive,
+  canStart,
+  canReset,
+  onStart,
+  onPause,
+  onReset,
+  onStop
+}: {
+  isActive: boolean;
+  canStart: boolean;
+  canReset: boolean;
+  onStart: () => void;
+  onPause: () => void;
+  onReset: () => void;
+  onStop: () => void;
+}) {
+  return (
+    <div className="flex justify-center items-center space-x-3 sm:space-x-4 mb-4">
+      {!isActive ? (
+        <button
+          onClick={onStart}
+          aria-label="Start"
+          disabled={!canStart}
+          className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-blue-500/20 border border-blue-400/40 text-blue-300 backdrop-blur-xl shadow-lg shadow-blue-500/20 transition-all duration-300 transform hover:scale-105 active:scale-95 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Play size={16} className="sm:w-5 sm:h-5 ml-0.5" />
+        </button>
+      ) : (
+        <button
+          onClick={onPause}
+          aria-label="Pause"
+          className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-orange-500/20 border border-orange-400/40 text-orange-300 backdrop-blur-xl shadow-lg shadow-orange-500/20 transition-all duration-300 transform hover:scale-105 active:scale-95 flex items-center justify-center"
+        >
+          <Pause size={16} className="sm:w-5 sm:h-5" />
+        </button>
+      )}
+      
+      <button
+        onClick={onReset}
+        aria-label="Reset"
+        disabled={!canReset}
+        className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-white/5 border border-white/10 text-white/60 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-white/10 hover:text-white/80 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <RotateCcw size={16} className="sm:w-5 sm:h-5" />
+      </button>
+
+      {isActive && (
+        <button
+          onClick={onStop}
+          aria-label="Stop"
+          className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-red-500/20 border border-red-400/40 text-red-300 backdrop-blur-xl shadow-lg transition-all duration-300 transform hover:scale-105 active:scale-95 hover:bg-red-500/30 flex items-center justify-center"
+        >
+          <Square size={16} className="sm:w-5 sm:h-5" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default TimerControls;
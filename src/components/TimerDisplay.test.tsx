@@ -0,0 +1,21 @@
+// @vitest-environment jsdom
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+import TimerDisplay from './TimerDisplay';
+
+afterEach(cleanup);
+
+describe('TimerDisplay', () => {
+  it('shows the time left as minutes and seconds', () => {
+    render(<TimerDisplay timeLeft={605} progress={0} isBreak={false} aside={<span>goal</span>} />);
+    expect(screen.getByText('10:05')).toBeTruthy();
+    expect(screen.getByText('goal')).toBeTruthy();
+  });
+
+  it('fills the bar by progress, in the break colour during a break', () => {
+    const { container } = render(<TimerDisplay timeLeft={0} progress={40} isBreak />);
+    const bar = container.querySelector<HTMLElement>('.bg-orange-400');
+    expect(bar?.style.width).toBe('40%');
+    expect(container.querySelector('.bg-blue-400')).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import type { ReactNode } from 'react';
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Time left and a progress bar for the session. `aside` sits next to the
+// time, e.g. goal progress.
+function TimerDisplay({
+  timeLeft,
+  progress,
+  isBreak,
+  aside
+}: {
+  timeLeft: number;
+  progress: number; // percent of the session done
+  isBreak: boolean;
+  aside?: ReactNode;
+}) {
+  return (
+    <div className="mb-6 sm:mb-8">
+      <div className="flex items-center justify-center space-x-4 sm:space-x-6 mb-4 sm:mb-6">
+        <div className="text-4xl sm:text-5xl lg:text-6xl font-light text-white/95 tracking-wider font-mono">
+          {formatTime(timeLeft)}
+        </div>
+        {aside}
+      </div>
+      
+      {/* Progress Bar */}
+      <div className="relative w-full max-w-xs mx-auto h-1 bg-white/10 rounded-full overflow-hidden">
+        <div 
+          className={`absolute left-0 top-0 h-full rounded-full transition-all duration-1000 ease-out ${
+            isBreak ? 'bg-orange-400 shadow-orange-400/50' : 'bg-blue-400 shadow-blue-400/50'
+          }`}
+          style={{ 
+            width: `${progress}%`,
+            boxShadow: `0 0 15px currentColor`
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default TimerDisplay;
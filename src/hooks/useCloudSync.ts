@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import type { SyncStatus } from '../components/SyncSettings';
+import { type StateStore, STORAGE_KEYS } from '../lib/storage';
+import { supabase } from '../lib/supabase';
+import {
+  applyRemoteChanges,
+  EMPTY_SYNC_STATE,
+  markPushed,
+  type PulledChanges,
+  pullChanges,
+  pushChanges,
+  runExclusive,
+  type SyncSnapshot,
+  type SyncState,
+  trackLocalChanges
+} from '../lib/sync';
+import { shareState } from '../lib/tabs';
+
+// How often a signed-in device checks for changes from other devices
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+// Cloud sync, available when Supabase is configured. Only the leading tab
+// syncs; `onRemoteChanges` takes in what other devices changed.
+export const useCloudSync = ({
+  storage,
+  isLeader,
+  snapshot,
+  onRemoteChanges
+}: {
+  storage: StateStore;
+  isLeader: boolean;
+  snapshot: SyncSnapshot;
+  onRemoteChanges: (snapshot: SyncSnapshot) => void;
+}) => {
+  const { tasks, sessionHistory, settings, tags } = snapshot;
+  const [user, setUser] = useState<User | null>(null);
+  const [state, setState] = useState<SyncState>(() => ({
+    ...EMPTY_SYNC_STATE,
+    ...storage.get<Partial<SyncState>>(STORAGE_KEYS.SYNC, {})
+  }));
+  const [status, setStatus] = useState<SyncStatus>({ state: 'idle', lastSyncedAt: null });
+  const [pulledChanges, setPulledChanges] = useState<PulledChanges | null>(null);
+
+  useEffect(() => {
+    storage.set(STORAGE_KEYS.SYNC, state);
+    shareState(STORAGE_KEYS.SYNC, state);
+  }, [state, storage]);
+
+  useEffect(() => {
+    if (!supabase) return;
+    supabase.auth.getSession().then(({ data }) => setUser(data.session?.user ?? null));
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => setUser(session?.user ?? null));
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  // Start from scratch when a different account signs in
+  useEffect(() => {
+    if (user && state.userId !== user.id) {
+      setState({ ...EMPTY_SYNC_STATE, userId: user.id });
+    }
+  }, [user, state.userId]);
+
+  // One tab syncs for all of them
+  const ready = isLeader && !!user && state.userId === user.id;
+
+  // Queue local edits once the account's data has been pulled in
+  useEffect(() => {
+    if (!ready || !state.initialized) return;
+    setState(prev => trackLocalChanges(prev, { tasks, sessionHistory, settings, tags }));
+  }, [ready, state.initialized, tasks, sessionHistory, settings, tags]);
+
+  // Merge what the last pull brought in
+  useEffect(() => {
+    if (!pulledChanges) return;
+    const current = { tasks, sessionHistory, settings, tags };
+    const result = applyRemoteChanges(current, state, pulledChanges);
+    setPulledChanges(null);
+    setState(result.state);
+    if (result.snapshot !== current) onRemoteChanges(result.snapshot);
+  }, [pulledChanges, tasks, sessionHistory, settings, tags, state, onRemoteChanges]);
+
+  // Push queued edits, then pull whatever changed elsewhere. The first sync of
+  // an account only pulls, so a fresh device cannot overwrite existing data
+  // with its defaults.
+  const syncNow = useCallback(() => runExclusive(async () => {
+    if (!supabase || !ready) return;
+    if (!navigator.onLine) {
+      setStatus({ state: 'offline' });
+      return;
+    }
+    setStatus({ state: 'syncing' });
+    try {
+      const pushed = state.initialized ? await pushChanges(supabase, state.queue) : [];
+      const pulled = await pullChanges(supabase, state.cursor);
+      setState(prev => markPushed(prev, pushed));
+      setPulledChanges(pulled);
+      setStatus({ state: 'idle', lastSyncedAt: Date.now() });
+    } catch (error) {
+      setStatus({ state: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }), [ready, state]);
+
+  useEffect(() => {
+    if (ready && !state.initialized) syncNow();
+  }, [ready, state.initialized, syncNow]);
+
+  // Push local edits shortly after they happen
+  useEffect(() => {
+    if (!ready || state.queue.length === 0) return;
+    const handle = window.setTimeout(syncNow, 2000);
+    return () => window.clearTimeout(handle);
+  }, [ready, state.queue.length, syncNow]);
+
+  // Check for remote changes regularly and as soon as we are back online
+  useEffect(() => {
+    if (!ready) return;
+    const handle = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    return () => {
+      window.clearInterval(handle);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [ready, syncNow]);
+
+  const signIn = async (email: string) => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: `${window.location.origin}${import.meta.env.BASE_URL}` }
+    });
+    if (error) throw new Error(error.message);
+  };
+
+  // Local data stays on the device, it just stops syncing
+  const signOut = async () => {
+    await supabase?.auth.signOut();
+    setState(EMPTY_SYNC_STATE);
+    setStatus({ state: 'idle', lastSyncedAt: null });
+  };
+
+  return { user, state, setState, status, syncNow, signIn, signOut };
+};
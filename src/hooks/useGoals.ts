@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { SessionRecord, TimerSettings } from '../types';
+import { getGoalProgress, getGoalStreaks } from '../lib/goals';
+import { addDays, startOfDay, startOfWeek } from '../lib/stats';
+
+// Start of the current day, which begins at `dayStartHour`. Moves on at that
+// hour, and checks again when the page comes back, since timers may not run
+// while the computer sleeps.
+export const useDayStart = (dayStartHour: number) => {
+  const [dayStart, setDayStart] = useState(() => startOfDay(Date.now(), dayStartHour));
+
+  useEffect(() => {
+    const checkDay = () => setDayStart(startOfDay(Date.now(), dayStartHour));
+    checkDay();
+    const handle = window.setTimeout(checkDay, addDays(dayStart, 1) - Date.now() + 1000);
+    document.addEventListener('visibilitychange', checkDay);
+    return () => {
+      window.clearTimeout(handle);
+      document.removeEventListener('visibilitychange', checkDay);
+    };
+  }, [dayStart, dayStartHour]);
+
+  return dayStart;
+};
+
+// Goal progress and streaks, counted in days that begin at the configured hour
+export const useGoalProgress = (
+  sessionHistory: SessionRecord[],
+  { dailyGoal, weeklyGoal, dayStartHour }: TimerSettings,
+  dayStart: number
+) => useMemo(() => ({
+  daily: getGoalProgress(sessionHistory, dailyGoal, dayStart),
+  weekly: getGoalProgress(sessionHistory, weeklyGoal, startOfWeek(dayStart, dayStartHour)),
+  streaks: getGoalStreaks(sessionHistory, dailyGoal, dayStart, dayStartHour)
+}), [sessionHistory, dailyGoal, weeklyGoal, dayStart, dayStartHour]);
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import type { StateStore } from '../lib/storage';
+import { getTabRole, joinTabs, listenToTabs, onTabRoleChange, shareState, type TabRole } from '../lib/tabs';
+
+// Join the other open tabs and tell whether this one leads. Followers keep
+// their writes in memory, ready for when they take over.
+export const useTabRole = (storage: StateStore) => {
+  const [tabRole, setTabRole] = useState<TabRole>(getTabRole);
+  const isLeader = tabRole === 'leader';
+
+  useEffect(() => {
+    const stopListening = onTabRoleChange(setTabRole);
+    joinTabs();
+    setTabRole(getTabRole());
+    return stopListening;
+  }, []);
+
+  useEffect(() => {
+    storage.hold(!isLeader);
+  }, [isLeader, storage]);
+
+  return isLeader;
+};
+
+// Bring newly opened tabs up to date with `shared`, keyed like storage, take
+// over state the other tabs send and, on the leader, run followers' commands
+export const useTabMessages = <Command>({
+  shared,
+  onState,
+  onCommand
+}: {
+  shared: Record<string, unknown>;
+  onState: (key: string, value: unknown) => void;
+  onCommand: (command: Command) => void;
+}) => {
+  // Subscribed again on every render so replies and commands see current state
+  useEffect(() => listenToTabs(message => {
+    if (message.type === 'hello') {
+      Object.entries(shared).forEach(([key, value]) => shareState(key, value));
+    } else if (message.type === 'command') {
+      onCommand(message.command as Command);
+    } else if (message.type === 'state') {
+      onState(message.key, message.value);
+    }
+  }));
+};
@@ -0,0 +1,183 @@
+import type { SessionRecord, TagDefinition, Task, TimerSettings, Weightage } from '../types';
+import { TAG_COLORS } from './tags';
+import { parseTimerSettings } from './timerProfiles';
+
+// Bump this whenever the shape of BackupData changes and add a migration
+// from the previous version below
+export const BACKUP_VERSION = 3;
+
+export interface BackupData {
+  tasks: Task[];
+  currentTaskIndex: number;
+  settings: TimerSettings;
+  completedSessions: number;
+  sessionHistory: SessionRecord[];
+  tags: TagDefinition[];
+}
+
+export interface BackupDocument {
+  app: 'pomodoro';
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+type RawData = Record<string, unknown>;
+
+const WEIGHTAGES: Weightage[] = ['low', 'medium', 'high', 'critical'];
+
+// Each migration takes the data of version N and returns version N + 1
+const MIGRATIONS: Record<number, (data: RawData) => RawData> = {
+  // Version 1 predates the tag registry
+  1: data => ({ ...data, tags: [] }),
+  // Version 2 kept flat break settings instead of timer profiles
+  2: data => ({ ...data, settings: parseTimerSettings(isRecord(data.settings) ? data.settings : null) })
+};
+
+const isRecord = (value: unknown): value is RawData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const createBackup = (data: BackupData): BackupDocument => ({
+  app: 'pomodoro',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data
+});
+
+export const validateTask = (value: unknown, index: number): Task => {
+  const fail = (reason: string): never => {
+    throw new Error(`Task ${index + 1} is invalid: ${reason}`);
+  };
+
+  if (!isRecord(value)) return fail('not an object');
+  const { id, title, description, duration, completed, completedAt, sessions, estimatedPomodoros, weightage, tags, subtasks, timerProfileId } = value;
+
+  if (typeof id !== 'string' || !id) fail('missing id');
+  if (typeof title !== 'string' || !title.trim()) fail('missing title');
+  if (description !== undefined && typeof description !== 'string') fail('description must be text');
+  if (!isNumber(duration) || duration <= 0) fail('duration must be a positive number');
+  if (typeof completed !== 'boolean') fail('completed must be true or false');
+  if (completedAt !== undefined && !isNumber(completedAt)) fail('completedAt must be a timestamp');
+  if (!isNumber(sessions) || sessions < 0) fail('sessions must be a non-negative number');
+  if (estimatedPomodoros !== undefined && (!isNumber(estimatedPomodoros) || estimatedPomodoros < 1)) {
+    fail('estimatedPomodoros must be at least 1');
+  }
+  if (!WEIGHTAGES.includes(weightage as Weightage)) fail(`unknown weightage "${String(weightage)}"`);
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) fail('tags must be a list of text');
+  if (subtasks !== undefined && (
+    !Array.isArray(subtasks) ||
+    subtasks.some(subtask =>
+      !isRecord(subtask) ||
+      typeof subtask.id !== 'string' ||
+      typeof subtask.title !== 'string' ||
+      typeof subtask.done !== 'boolean'
+    )
+  )) {
+    fail('subtasks must be a list of checklist items');
+  }
+  if (timerProfileId !== undefined && typeof timerProfileId !== 'string') fail('timerProfileId must be text');
+
+  return value as unknown as Task;
+};
+
+const validateSessionRecord = (value: unknown, index: number): SessionRecord => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    !['focus', 'short_break', 'long_break'].includes(value.kind as string) ||
+    !isNumber(value.startedAt) ||
+    !isNumber(value.endedAt) ||
+    !isNumber(value.plannedDuration) ||
+    !isNumber(value.actualDuration) ||
+    !Array.isArray(value.pauses) ||
+    !['completed', 'stopped', 'reset'].includes(value.outcome as string) ||
+    (value.note !== undefined && typeof value.note !== 'string')
+  ) {
+    throw new Error(`Session ${index + 1} in the history is invalid`);
+  }
+  return value as unknown as SessionRecord;
+};
+
+const validateTag = (value: unknown, index: number): TagDefinition => {
+  if (
+    !isRecord(value) ||
+    typeof value.name !== 'string' ||
+    !value.name.trim() ||
+    !TAG_COLORS.includes(value.color as TagDefinition['color'])
+  ) {
+    throw new Error(`Tag ${index + 1} is invalid`);
+  }
+  return { name: value.name, color: value.color as TagDefinition['color'] };
+};
+
+const validateData = (data: RawData): BackupData => {
+  if (!Array.isArray(data.tasks)) throw new Error('Backup has no task list');
+  if (!Array.isArray(data.sessionHistory)) throw new Error('Backup has no session history');
+  if (!Array.isArray(data.tags)) throw new Error('Backup has no tag list');
+
+  return {
+    tasks: data.tasks.map(validateTask),
+    currentTaskIndex: isNumber(data.currentTaskIndex) ? data.currentTaskIndex : 0,
+    settings: parseTimerSettings(isRecord(data.settings) ? data.settings : null),
+    completedSessions: isNumber(data.completedSessions) ? data.completedSessions : 0,
+    sessionHistory: data.sessionHistory.map(validateSessionRecord),
+    tags: data.tags.map(validateTag)
+  };
+};
+
+// Parse an exported file, upgrading older versions to the current one.
+// Throws an Error with a readable message if the file cannot be used.
+export const parseBackup = (json: string): BackupData => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isRecord(parsed) || parsed.app !== 'pomodoro' || !isRecord(parsed.data)) {
+    throw new Error('File is not a pomodoro backup');
+  }
+  if (!isNumber(parsed.version) || parsed.version < 1) {
+    throw new Error('Backup has no schema version');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new Error('Backup was made by a newer version of the app');
+  }
+
+  let data = parsed.data;
+  for (let version = parsed.version; version < BACKUP_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+  }
+  return validateData(data);
+};
+
+// Replace swaps everything for the imported data. Merge only adds tasks and
+// sessions that are not already present and keeps local settings and counters.
+export const applyBackup = (current: BackupData, incoming: BackupData, mode: ImportMode): BackupData => {
+  if (mode === 'replace') {
+    return {
+      ...incoming,
+      currentTaskIndex: Math.min(Math.max(0, incoming.currentTaskIndex), Math.max(0, incoming.tasks.length - 1))
+    };
+  }
+
+  const taskIds = new Set(current.tasks.map(task => task.id));
+  const sessionIds = new Set(current.sessionHistory.map(record => record.id));
+  const tagNames = new Set(current.tags.map(tag => tag.name.toLowerCase()));
+
+  return {
+    ...current,
+    tasks: [...current.tasks, ...incoming.tasks.filter(task => !taskIds.has(task.id))],
+    sessionHistory: [
+      ...current.sessionHistory,
+      ...incoming.sessionHistory.filter(record => !sessionIds.has(record.id))
+    ].sort((a, b) => a.startedAt - b.startedAt),
+    tags: [...current.tags, ...incoming.tags.filter(tag => !tagNames.has(tag.name.toLowerCase()))]
+  };
+};
@@ -0,0 +1,14 @@
+// Save a generated file through a temporary download link
+export const downloadFile = (filename: string, contents: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Date stamp for exported file names, e.g. 2024-03-09
+export const fileDateStamp = (date: Date = new Date()) => date.toISOString().slice(0, 10);
@@ -0,0 +1,34 @@
+// Score how well `query` matches `text` when its characters appear in order,
+// not necessarily next to each other. Higher is better; null means no match.
+// Consecutive characters and matches at the start of a word score extra.
+export const fuzzyScore = (query: string, text: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+    position = index + 1;
+  }
+  // Prefer shorter texts when the match is otherwise equal
+  return score - haystack.length * 0.01;
+};
+
+// Items that match, best first. An empty query keeps every item in order.
+export const fuzzyFilter = <T>(items: T[], query: string, getText: (item: T) => string) => {
+  if (!query.trim()) return items;
+  return items
+    .map(item => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.item);
+};
@@ -0,0 +1,58 @@
+import type { FocusGoal, GoalUnit, SessionRecord } from '../types';
+import { type FocusBucket, getFocusRecords, getStreaks } from './stats';
+
+export const GOAL_UNITS: { unit: GoalUnit; label: string }[] = [
+  { unit: 'sessions', label: 'Sessions' },
+  { unit: 'minutes', label: 'Minutes' }
+];
+
+export const NO_GOAL: FocusGoal = { target: 0, unit: 'sessions' };
+
+const MAX_GOAL: Record<GoalUnit, number> = { sessions: 200, minutes: 10000 };
+
+export const clampGoalTarget = (unit: GoalUnit, target: number) =>
+  Math.max(0, Math.min(MAX_GOAL[unit], Math.round(target) || 0));
+
+export const parseFocusGoal = (stored: unknown): FocusGoal => {
+  if (!stored || typeof stored !== 'object') return NO_GOAL;
+  const { target, unit } = stored as Partial<FocusGoal>;
+  const goalUnit = unit === 'minutes' ? 'minutes' : 'sessions';
+  return { target: typeof target === 'number' ? clampGoalTarget(goalUnit, target) : 0, unit: goalUnit };
+};
+
+// Sessions count when completed; minutes include sessions stopped early
+const getAmount = (bucket: Pick<FocusBucket, 'minutes' | 'sessions'>, unit: GoalUnit) =>
+  unit === 'sessions' ? bucket.sessions : Math.floor(bucket.minutes);
+
+export interface GoalProgress extends FocusGoal {
+  done: number;
+  fraction: number; // 0-1, capped once the goal is reached
+}
+
+// Progress towards `goal` from focus started at or after `since`, or null
+// when there is no goal
+export const getGoalProgress = (history: SessionRecord[], goal: FocusGoal, since: number): GoalProgress | null => {
+  if (goal.target <= 0) return null;
+  const totals = { minutes: 0, sessions: 0 };
+  getFocusRecords(history)
+    .filter(record => record.startedAt >= since)
+    .forEach(record => {
+      totals.minutes += record.actualDuration / 60;
+      if (record.outcome === 'completed') totals.sessions += 1;
+    });
+  const done = getAmount(totals, goal.unit);
+  return { ...goal, done, fraction: Math.min(1, done / goal.target) };
+};
+
+// Consecutive days that reached the daily goal, or that had any completed
+// session when there is none
+export const getGoalStreaks = (history: SessionRecord[], goal: FocusGoal, now: number, dayStartHour: number) =>
+  getStreaks(
+    history,
+    now,
+    dayStartHour,
+    goal.target > 0 ? bucket => getAmount(bucket, goal.unit) >= goal.target : undefined
+  );
+
+export const formatGoalAmount = (amount: number, unit: GoalUnit) =>
+  unit === 'sessions' ? `${amount} ${amount === 1 ? 'session' : 'sessions'}` : `${amount} min`;
@@ -0,0 +1,71 @@
+import type { InterruptionType, PauseInterval, SessionRecord, Task } from '../types';
+
+export const INTERRUPTION_TYPES: { type: InterruptionType; label: string }[] = [
+  { type: 'internal', label: 'Internal' },
+  { type: 'external', label: 'External' },
+  { type: 'meeting', label: 'Meeting' }
+];
+
+export type InterruptionCounts = Record<InterruptionType | 'unspecified', number>;
+
+export interface InterruptionBucket {
+  key: string;
+  label: string;
+  count: number;
+  pausedMinutes: number;
+  byType: InterruptionCounts;
+}
+
+const emptyCounts = (): InterruptionCounts => ({ internal: 0, external: 0, meeting: 0, unspecified: 0 });
+
+export const getPauseDuration = (pause: PauseInterval, now: number = Date.now()) =>
+  Math.max(0, (pause.end ?? now) - pause.start);
+
+// Every pause of a focus session counts as an interruption. Pausing a break
+// does not.
+const getFocusSessions = (history: SessionRecord[]) =>
+  history.filter(record => record.kind === 'focus');
+
+export const countInterruptionsByType = (pauses: PauseInterval[]) =>
+  pauses.reduce((counts, pause) => {
+    counts[pause.interruption ?? 'unspecified'] += 1;
+    return counts;
+  }, emptyCounts());
+
+export const getInterruptionTotals = (history: SessionRecord[]) =>
+  countInterruptionsByType(getFocusSessions(history).flatMap(record => record.pauses));
+
+export const getAverageInterruptionsPerSession = (history: SessionRecord[]) => {
+  const sessions = getFocusSessions(history);
+  if (sessions.length === 0) return 0;
+  return sessions.reduce((total, record) => total + record.pauses.length, 0) / sessions.length;
+};
+
+// Tasks that were interrupted at all, most interrupted first
+export const getInterruptionsByTask = (history: SessionRecord[], tasks: Task[]) => {
+  const buckets = new Map<string, InterruptionBucket>();
+
+  getFocusSessions(history).forEach(record => {
+    if (record.pauses.length === 0) return;
+    const key = record.taskId ?? 'none';
+    if (!buckets.has(key)) {
+      const task = tasks.find(t => t.id === record.taskId);
+      buckets.set(key, { key, label: task?.title ?? 'Deleted task', count: 0, pausedMinutes: 0, byType: emptyCounts() });
+    }
+    const bucket = buckets.get(key)!;
+    record.pauses.forEach(pause => {
+      bucket.count += 1;
+      bucket.pausedMinutes += getPauseDuration(pause, record.endedAt) / 60000;
+      bucket.byType[pause.interruption ?? 'unspecified'] += 1;
+    });
+  });
+
+  return Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+};
+
+// The latest focus sessions, newest first
+export const getRecentFocusSessions = (history: SessionRecord[], limit: number) =>
+  getFocusSessions(history)
+    .slice()
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .slice(0, limit);
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { SessionRecord } from '../types';
+import { getJournalEntries, groupJournalEntries } from './journal';
+
+const noted = (endedAt: number, note: string): SessionRecord => ({
+  id: `${endedAt}`,
+  kind: 'focus',
+  taskId: null,
+  startedAt: endedAt - 1500 * 1000,
+  plannedDuration: 1500,
+  pauses: [],
+  endedAt,
+  actualDuration: 1500,
+  outcome: 'completed',
+  note
+});
+
+describe('groupJournalEntries', () => {
+  it('puts notes from after midnight under the day before the day start hour', () => {
+    const entries = getJournalEntries([
+      noted(new Date(2024, 2, 4, 23).getTime(), 'late'),
+      noted(new Date(2024, 2, 5, 2).getTime(), 'later')
+    ], []);
+
+    expect(groupJournalEntries(entries, 'date').map(group => group.key)).toEqual(['2024-03-05', '2024-03-04']);
+
+    const groups = groupJournalEntries(entries, 'date', 4);
+    expect(groups.map(group => group.key)).toEqual(['2024-03-04']);
+    expect(groups[0].entries.map(entry => entry.note)).toEqual(['later', 'late']);
+    expect(groups[0].label).toBe(new Date(2024, 2, 4).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' }));
+  });
+});
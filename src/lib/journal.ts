@@ -0,0 +1,67 @@
+import type { SessionRecord, Task } from '../types';
+import { startOfDay, toDayKey } from './stats';
+
+export type JournalGrouping = 'date' | 'task';
+
+export interface JournalEntry {
+  record: SessionRecord;
+  taskTitle: string;
+  note: string;
+}
+
+export interface JournalGroup {
+  key: string;
+  label: string;
+  entries: JournalEntry[];
+}
+
+// Focus sessions that have a note, newest first
+export const getJournalEntries = (history: SessionRecord[], tasks: Task[]): JournalEntry[] =>
+  history
+    .filter(record => record.kind === 'focus' && record.note?.trim())
+    .sort((a, b) => b.endedAt - a.endedAt)
+    .map(record => ({
+      record,
+      taskTitle: tasks.find(task => task.id === record.taskId)?.title ?? 'Deleted task',
+      note: record.note!.trim()
+    }));
+
+// The search text may appear in the note or in the task title
+export const searchJournal = (entries: JournalEntry[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(entry => `${entry.taskTitle}\n${entry.note}`.toLowerCase().includes(needle));
+};
+
+// Entries keep their newest-first order inside each group, and groups are
+// ordered by their newest entry. Dates follow days that begin at
+// `dayStartHour`, like the rest of the stats.
+export const groupJournalEntries = (
+  entries: JournalEntry[],
+  grouping: JournalGrouping,
+  dayStartHour = 0
+): JournalGroup[] => {
+  const groups = new Map<string, JournalGroup>();
+
+  entries.forEach(entry => {
+    const key = grouping === 'date' ? toDayKey(entry.record.endedAt, dayStartHour) : entry.record.taskId ?? 'none';
+    if (!groups.has(key)) {
+      groups.set(key, {
+        key,
+        label: grouping === 'date'
+          ? new Date(startOfDay(entry.record.endedAt, dayStartHour)).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+          : entry.taskTitle,
+        entries: []
+      });
+    }
+    groups.get(key)!.entries.push(entry);
+  });
+
+  return Array.from(groups.values());
+};
+
+// Attach a note to a session in the history log
+export const withSessionNote = (history: SessionRecord[], sessionId: string, note: string) =>
+  history.map(record =>
+    record.id === sessionId ? { ...record, note: note.trim() || undefined } : record
+  );
@@ -0,0 +1,62 @@
+import { registerServiceWorker } from './serviceWorker';
+
+export type NotificationAction = 'start-break' | 'skip-break' | 'extend' | 'start-next-task';
+
+export const NOTIFICATION_ACTION_LABELS: Record<NotificationAction, string> = {
+  'start-break': 'Start break',
+  'skip-break': 'Skip break',
+  extend: '+5 min',
+  'start-next-task': 'Start next task'
+};
+
+const ICON = `${import.meta.env.BASE_URL}icon.svg`;
+
+export const notificationsSupported = () => 'Notification' in window;
+
+export const requestNotificationPermission = async () => {
+  if (!notificationsSupported()) return 'denied' as NotificationPermission;
+  return Notification.requestPermission();
+};
+
+export const showNotification = async (
+  title: string,
+  body: string,
+  actions: NotificationAction[] = []
+) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const worker = await registerServiceWorker();
+  // Without a service worker, e.g. on plain http, fall back to the page's
+  // Notification API without action buttons
+  if (worker) {
+    // `actions` is not in the DOM typings yet
+    const options: NotificationOptions & { actions: { action: string; title: string }[] } = {
+      body,
+      icon: ICON,
+      badge: ICON,
+      tag: 'pomodoro-timer',
+      actions: actions.map(action => ({ action, title: NOTIFICATION_ACTION_LABELS[action] }))
+    };
+    await worker.showNotification(title, options);
+    return;
+  }
+
+  const notification = new Notification(title, { body, icon: ICON, tag: 'pomodoro-timer' });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+// Call `handler` for each notification button the user presses. Returns a
+// function that stops listening.
+export const listenForNotificationActions = (handler: (action: NotificationAction) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'notification-action' && event.data.action in NOTIFICATION_ACTION_LABELS) {
+      handler(event.data.action as NotificationAction);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
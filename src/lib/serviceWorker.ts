@@ -0,0 +1,49 @@
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+// Register the service worker once. Resolves to null where service workers
+// are unavailable, e.g. on plain http.
+export const registerServiceWorker = () => {
+  if (!registration) {
+    registration = 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(error => {
+          console.warn('Could not register service worker:', error);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return registration;
+};
+
+// Call `onUpdate` once a new version has been downloaded and is waiting to
+// take over. The very first install is not an update. Returns a function
+// that stops listening.
+export const watchForUpdate = (onUpdate: () => void) => {
+  let cancelled = false;
+  const notify = () => {
+    if (!cancelled && navigator.serviceWorker.controller) onUpdate();
+  };
+
+  registerServiceWorker().then(worker => {
+    if (!worker || cancelled) return;
+    if (worker.waiting) notify();
+    worker.addEventListener('updatefound', () => {
+      const installing = worker.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed') notify();
+      });
+    });
+  });
+
+  return () => {
+    cancelled = true;
+  };
+};
+
+// Let the waiting version take over and reload into it. Timer and task state
+// are stored on the device, so a running session carries on after the reload.
+export const applyUpdate = async () => {
+  const worker = await registerServiceWorker();
+  if (!worker?.waiting) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  worker.waiting.postMessage({ type: 'skip-waiting' });
+};
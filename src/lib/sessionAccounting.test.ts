@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { ActiveSession, Task, TimerSettings } from '../types';
+import { endSession, type SessionEndContext } from './sessionAccounting';
+import { taskReducer } from './taskStore';
+import { DEFAULT_TIMER_STATE, timerReducer } from './timerMachine';
+import { DEFAULT_TIMER_SETTINGS } from './timerProfiles';
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  duration: 30,
+  completed: false,
+  sessions: 0,
+  weightage: 'medium',
+  tags: [],
+  ...changes
+});
+
+const focusSession: ActiveSession = {
+  id: 'session',
+  kind: 'focus',
+  taskId: 'a',
+  startedAt: 0,
+  plannedDuration: 1800,
+  pauses: []
+};
+
+const context = (changes: Partial<SessionEndContext> = {}, settings: Partial<TimerSettings> = {}): SessionEndContext => ({
+  session: focusSession,
+  endedAt: 1800 * 1000,
+  tasks: [task('a'), task('b')],
+  currentTask: task('a'),
+  nextTask: task('b'),
+  completedSessions: 0,
+  settings: { ...DEFAULT_TIMER_SETTINGS, autoStartBreaks: false, promptSessionNotes: false, ...settings },
+  ...changes
+});
+
+describe('endSession', () => {
+  it('credits a focus session to the task it ran for', () => {
+    const tasks = [task('a'), task('b')];
+    const end = endSession(context({ tasks, currentTask: tasks[1] }));
+    expect(end.record).toMatchObject({ id: 'session', taskId: 'a', outcome: 'completed', endedAt: 1800 * 1000 });
+    expect(end.completedSessions).toBe(1);
+    expect(end.taskActions).toEqual([{ type: 'creditSession', taskId: 'a' }]);
+    expect(end.timerAction).toMatchObject({ type: 'finishFocus', breakType: 'short', breakSeconds: 300 });
+    expect(end.chime).toBe('break');
+  });
+
+  it('still ends a focus session whose task is gone', () => {
+    const end = endSession(context({ tasks: [], currentTask: null, nextTask: null }));
+    expect(end.taskActions).toEqual([]);
+    expect(end.completedSessions).toBe(1);
+    expect(end.timerAction.type).toBe('finishFocus');
+
+    // The timer leaves the session, so it is not settled a second time
+    const running = timerReducer(DEFAULT_TIMER_STATE, { type: 'start', taskId: 'a', plannedDuration: 1800, now: 0 });
+    const after = timerReducer({ ...running, timeLeft: 0 }, end.timerAction);
+    expect(after).toMatchObject({ phase: 'break_ready', activeSession: null });
+  });
+
+  it('sets up a long break after enough sessions and starts it after a countdown', () => {
+    const end = endSession(context({ completedSessions: 3 }, { autoStartBreaks: true, promptSessionNotes: true }));
+    expect(end.timerAction).toEqual({
+      type: 'finishFocus',
+      breakType: 'long',
+      breakSeconds: 900,
+      transition: {
+        dueAt: 1810 * 1000,
+        session: { kind: 'long_break', taskId: 'a', plannedDuration: 900 },
+        nextTaskId: null
+      },
+      promptNote: true
+    });
+  });
+
+  it('moves on to the next task once the estimate is reached', () => {
+    const tasks = [task('a', { sessions: 1, estimatedPomodoros: 2 }), task('b')];
+    const end = endSession(context({ tasks, currentTask: tasks[0] }, { autoAdvanceTasks: true }));
+    expect(end.timerAction).toMatchObject({ transition: { session: null, nextTaskId: 'b' } });
+
+    const state = end.taskActions.reduce(taskReducer, { tasks, currentTaskIndex: 0 });
+    expect(state.tasks[0].sessions).toBe(2);
+  });
+
+  it('returns to focus on the current task after a break', () => {
+    const breakSession: ActiveSession = { ...focusSession, id: 'break', kind: 'short_break', plannedDuration: 300 };
+    const end = endSession(context({ session: breakSession, completedSessions: 2 }, { autoStartFocus: true }));
+    expect(end.completedSessions).toBe(2);
+    expect(end.taskActions).toEqual([]);
+    expect(end.timerAction).toEqual({
+      type: 'finishBreak',
+      focusSeconds: 1800,
+      transition: {
+        dueAt: 1810 * 1000,
+        session: { kind: 'focus', taskId: 'a', plannedDuration: 1800 },
+        nextTaskId: null
+      }
+    });
+    expect(end.chime).toBe('focus');
+  });
+
+  it('ends a break without a focus session to start when no task is open', () => {
+    const breakSession: ActiveSession = { ...focusSession, kind: 'short_break', plannedDuration: 300 };
+    const end = endSession(context({ session: breakSession, currentTask: null }, { autoStartFocus: true }));
+    expect(end.timerAction).toEqual({ type: 'finishBreak', focusSeconds: null, transition: null });
+  });
+});
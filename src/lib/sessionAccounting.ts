@@ -0,0 +1,111 @@
+import type { ActiveSession, PendingTransition, SessionRecord, Task, TimerSettings } from '../types';
+import type { NotificationAction } from './notifications';
+import { finishSession } from './sessionHistory';
+import type { SoundCue } from './sound';
+import type { TaskAction } from './taskStore';
+import type { TimerAction } from './timerMachine';
+import { getBreakMinutes, getEffectiveProfile, getFocusMinutes } from './timerProfiles';
+
+// Seconds of countdown before an automatic transition happens
+export const AUTO_TRANSITION_SECONDS = 10;
+
+export interface SessionEndContext {
+  session: ActiveSession; // the session that ran to zero
+  endedAt: number; // when it was due to end, epoch ms
+  tasks: Task[];
+  currentTask: Task | null;
+  nextTask: Task | null; // where the task rotation goes next
+  completedSessions: number; // focus sessions completed today so far
+  settings: TimerSettings;
+}
+
+// Everything that follows from a session running to zero, for the caller to
+// apply: the history record, today's count, the task and timer actions to
+// dispatch and how to tell the user
+export interface SessionEnd {
+  record: SessionRecord;
+  completedSessions: number;
+  taskActions: TaskAction[];
+  timerAction: TimerAction;
+  chime: SoundCue;
+  notification: { title: string; body: string; actions: NotificationAction[] };
+}
+
+const autoStep = (endedAt: number, step: Omit<PendingTransition, 'dueAt'>): PendingTransition => ({
+  dueAt: endedAt + AUTO_TRANSITION_SECONDS * 1000,
+  ...step
+});
+
+// Credit a focus session to the task it ran for, then set up the break and
+// start it and/or move on to the next task after a countdown if the settings
+// ask for it. A session whose task is gone still counts for the day.
+const endFocus = ({ session, endedAt, tasks, nextTask, completedSessions, settings }: SessionEndContext): SessionEnd => {
+  const task = tasks.find(candidate => candidate.id === session.taskId) ?? null;
+  const newCompletedSessions = completedSessions + 1;
+  const profile = getEffectiveProfile(settings, task);
+  const breakType = newCompletedSessions % profile.sessionsUntilLongBreak === 0 ? 'long' : 'short';
+  const breakSeconds = getBreakMinutes(profile, breakType) * 60;
+  const reachedEstimate = !!task?.estimatedPomodoros && task.sessions + 1 >= task.estimatedPomodoros;
+  const advanceTo = settings.autoAdvanceTasks && reachedEstimate ? nextTask : null;
+
+  return {
+    record: finishSession(session, 'completed', endedAt),
+    completedSessions: newCompletedSessions,
+    taskActions: task ? [{ type: 'creditSession', taskId: task.id }] : [],
+    timerAction: {
+      type: 'finishFocus',
+      breakType,
+      breakSeconds,
+      transition: settings.autoStartBreaks || advanceTo
+        ? autoStep(endedAt, {
+            session: settings.autoStartBreaks
+              ? { kind: `${breakType}_break`, taskId: session.taskId, plannedDuration: breakSeconds }
+              : null,
+            nextTaskId: advanceTo?.id ?? null
+          })
+        : null,
+      promptNote: settings.promptSessionNotes
+    },
+    chime: 'break',
+    notification: {
+      title: 'Focus session complete!',
+      body: `Time for a ${breakType} break`,
+      actions: ['start-break', 'skip-break']
+    }
+  };
+};
+
+// Back to focus on the current task after a break, starting it automatically
+// if asked to
+const endBreak = ({ session, endedAt, currentTask, completedSessions, settings }: SessionEndContext): SessionEnd => {
+  const focusSeconds = currentTask
+    ? getFocusMinutes(getEffectiveProfile(settings, currentTask), currentTask) * 60
+    : null;
+
+  return {
+    record: finishSession(session, 'completed', endedAt),
+    completedSessions,
+    taskActions: [],
+    timerAction: {
+      type: 'finishBreak',
+      focusSeconds,
+      transition: currentTask && focusSeconds && settings.autoStartFocus
+        ? autoStep(endedAt, {
+            session: { kind: 'focus', taskId: currentTask.id, plannedDuration: focusSeconds },
+            nextTaskId: null
+          })
+        : null
+    },
+    chime: 'focus',
+    notification: {
+      title: 'Break complete!',
+      body: 'Ready for your next focus session?',
+      actions: ['start-next-task', 'extend']
+    }
+  };
+};
+
+// What a session that ran to zero leads to, decided by the kind of session
+// rather than by which task happens to be current now
+export const endSession = (context: SessionEndContext): SessionEnd =>
+  context.session.kind === 'focus' ? endFocus(context) : endBreak(context);
@@ -0,0 +1,105 @@
+import type { SessionRecord, Task } from '../types';
+
+const CSV_HEADER = ['Task', 'Tags', 'Weightage', 'Start', 'End', 'Minutes', 'Note'];
+
+// Only focus sessions that ran to the end are logged as worked time
+export const getCompletedFocusSessions = (history: SessionRecord[]) =>
+  history
+    .filter(record => record.kind === 'focus' && record.outcome === 'completed')
+    .sort((a, b) => a.startedAt - b.startedAt);
+
+const findTask = (tasks: Task[], record: SessionRecord) =>
+  tasks.find(task => task.id === record.taskId);
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Local time in a format spreadsheets recognise, e.g. 2024-03-09 14:05:00
+const formatLocalDateTime = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const escapeCsv = (value: string) => {
+  // Keep spreadsheets from evaluating task titles as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const sessionsToCsv = (history: SessionRecord[], tasks: Task[]) => {
+  const rows = getCompletedFocusSessions(history).map(record => {
+    const task = findTask(tasks, record);
+    return [
+      task?.title ?? 'Deleted task',
+      (task?.tags ?? []).join('; '),
+      task?.weightage ?? '',
+      formatLocalDateTime(record.startedAt),
+      formatLocalDateTime(record.endedAt),
+      (record.actualDuration / 60).toFixed(1),
+      record.note ?? ''
+    ];
+  });
+
+  return [CSV_HEADER, ...rows]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\r\n') + '\r\n';
+};
+
+// UTC timestamp as used by iCalendar, e.g. 20240309T130500Z
+const formatICalDate = (time: number) =>
+  new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeICalText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters are folded onto continuation lines that
+// start with a space (RFC 5545 section 3.1)
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = ` ${rest.slice(75)}`;
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+};
+
+export const sessionsToICalendar = (history: SessionRecord[], tasks: Task[], now: number = Date.now()) => {
+  const events = getCompletedFocusSessions(history).flatMap(record => {
+    const task = findTask(tasks, record);
+    const minutes = Math.round(record.actualDuration / 60);
+    const details = [
+      `${minutes} min focus session`,
+      task ? `Weightage: ${task.weightage}` : null,
+      task && task.tags.length > 0 ? `Tags: ${task.tags.join(', ')}` : null,
+      record.note ? `Notes: ${record.note}` : null,
+      task?.description ?? null
+    ].filter((line): line is string => line !== null);
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${record.id}@pomodoro`,
+      `DTSTAMP:${formatICalDate(now)}`,
+      `DTSTART:${formatICalDate(record.startedAt)}`,
+      `DTEND:${formatICalDate(record.endedAt)}`,
+      `SUMMARY:${escapeICalText(task?.title ?? 'Focus session')}`,
+      `DESCRIPTION:${escapeICalText(details.join('\n'))}`,
+      ...(task && task.tags.length > 0 ? [`CATEGORIES:${task.tags.map(escapeICalText).join(',')}`] : []),
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Pomodoro//Focus Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,71 @@
+import type { ActiveSession, PauseInterval, SessionKind, SessionOutcome, SessionRecord } from '../types';
+
+// Start tracking a new focus or break interval
+export const startSession = (
+  kind: SessionKind,
+  taskId: string | null,
+  plannedDuration: number,
+  now: number = Date.now()
+): ActiveSession => ({
+  id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  taskId,
+  startedAt: now,
+  plannedDuration,
+  pauses: []
+});
+
+export const isSessionPaused = (session: ActiveSession) => {
+  const lastPause = session.pauses[session.pauses.length - 1];
+  return !!lastPause && lastPause.end === undefined;
+};
+
+export const pauseSession = (session: ActiveSession, now: number = Date.now()): ActiveSession => {
+  if (isSessionPaused(session)) return session;
+  return { ...session, pauses: [...session.pauses, { start: now }] };
+};
+
+export const resumeSession = (session: ActiveSession, now: number = Date.now()): ActiveSession => {
+  if (!isSessionPaused(session)) return session;
+  const pauses = session.pauses.slice();
+  pauses[pauses.length - 1] = { ...pauses[pauses.length - 1], end: now };
+  return { ...session, pauses };
+};
+
+// Give a session more time, e.g. five more minutes of break
+export const extendSession = (session: ActiveSession, seconds: number): ActiveSession => ({
+  ...session,
+  plannedDuration: session.plannedDuration + seconds
+});
+
+// Record what caused the most recent pause
+export const annotatePause = (
+  session: ActiveSession,
+  details: Pick<PauseInterval, 'interruption' | 'note'>
+): ActiveSession => {
+  if (session.pauses.length === 0) return session;
+  const pauses = session.pauses.slice();
+  pauses[pauses.length - 1] = { ...pauses[pauses.length - 1], ...details };
+  return { ...session, pauses };
+};
+
+// Total time spent paused in ms, counting an open pause up to `now`
+export const getPausedTime = (pauses: PauseInterval[], now: number = Date.now()) =>
+  pauses.reduce((total, pause) => total + Math.max(0, (pause.end ?? now) - pause.start), 0);
+
+// Close the session and turn it into a history record
+export const finishSession = (
+  session: ActiveSession,
+  outcome: SessionOutcome,
+  now: number = Date.now()
+): SessionRecord => {
+  const closed = resumeSession(session, now);
+  const activeTime = now - closed.startedAt - getPausedTime(closed.pauses, now);
+
+  return {
+    ...closed,
+    endedAt: now,
+    actualDuration: Math.max(0, Math.round(activeTime / 1000)),
+    outcome
+  };
+};
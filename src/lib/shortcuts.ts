@@ -0,0 +1,120 @@
+export type ShortcutAction =
+  | 'toggleTimer'
+  | 'resetTimer'
+  | 'stopSession'
+  | 'previousTask'
+  | 'nextTask'
+  | 'newTask'
+  | 'openTaskList'
+  | 'openStats'
+  | 'openJournal'
+  | 'openSettings'
+  | 'commandPalette'
+  | 'showHelp'
+  | 'closeModal';
+
+// Key combinations are stored as text, e.g. "Space", "r" or "Mod+k", where
+// Mod is Ctrl, or Cmd on a Mac
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'toggleTimer', label: 'Start / pause timer' },
+  { action: 'resetTimer', label: 'Reset timer' },
+  { action: 'stopSession', label: 'Stop session' },
+  { action: 'previousTask', label: 'Previous task' },
+  { action: 'nextTask', label: 'Next task' },
+  { action: 'newTask', label: 'New task' },
+  { action: 'openTaskList', label: 'Open task list' },
+  { action: 'openStats', label: 'Open statistics' },
+  { action: 'openJournal', label: 'Open journal' },
+  { action: 'openSettings', label: 'Open settings' },
+  { action: 'commandPalette', label: 'Command palette' },
+  { action: 'showHelp', label: 'Keyboard shortcuts' },
+  { action: 'closeModal', label: 'Close dialog' }
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  toggleTimer: 'Space',
+  resetTimer: 'r',
+  stopSession: 's',
+  previousTask: 'ArrowLeft',
+  nextTask: 'ArrowRight',
+  newTask: 'n',
+  openTaskList: 'l',
+  openStats: 'g',
+  openJournal: 'j',
+  openSettings: ',',
+  commandPalette: 'Mod+k',
+  showHelp: '?',
+  closeModal: 'Escape'
+};
+
+// These still work while typing in a text field or with a dialog open
+export const GLOBAL_SHORTCUTS: ShortcutAction[] = ['commandPalette', 'closeModal'];
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+const isMac = () => /Mac|iPhone|iPad/.test(navigator.platform);
+
+// The combination for a key press, or null for a lone modifier key.
+// Shift is only named for keys that have no shifted character of their own,
+// since "?" already says Shift+/.
+export const eventToCombo = (event: KeyboardEvent) => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Mod');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && event.key.length > 1 && key !== 'Space') parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc'
+};
+
+export const formatCombo = (combo: string) =>
+  combo
+    .split('+')
+    .map(part => {
+      if (part === 'Mod') return isMac() ? '⌘' : 'Ctrl';
+      if (part === 'Alt') return isMac() ? '⌥' : 'Alt';
+      return KEY_NAMES[part] ?? (part.length === 1 ? part.toUpperCase() : part);
+    })
+    .join(isMac() ? '' : '+');
+
+export const parseShortcuts = (stored: Record<string, unknown> | null): ShortcutBindings => {
+  const bindings = { ...DEFAULT_SHORTCUTS };
+  if (!stored) return bindings;
+  SHORTCUT_ACTIONS.forEach(({ action }) => {
+    const combo = stored[action];
+    if (typeof combo === 'string') bindings[action] = combo;
+  });
+  return bindings;
+};
+
+export const findShortcutAction = (bindings: ShortcutBindings, combo: string) =>
+  SHORTCUT_ACTIONS.find(({ action }) => bindings[action] === combo)?.action ?? null;
+
+// Bind `combo` to `action`. Whatever had that combination before loses it, so
+// no two actions share a key.
+export const rebindShortcut = (bindings: ShortcutBindings, action: ShortcutAction, combo: string): ShortcutBindings => {
+  const next = { ...bindings };
+  SHORTCUT_ACTIONS.forEach(({ action: other }) => {
+    if (other !== action && next[other] === combo) next[other] = '';
+  });
+  next[action] = combo;
+  return next;
+};
+
+// Key presses meant for a text field should not trigger shortcuts
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
@@ -0,0 +1,168 @@
+import type { ChimePreset, FocusLoop, SoundSettings } from '../types';
+
+export type SoundCue = 'focus' | 'break' | 'warning';
+
+interface ChimeDefinition {
+  label: string;
+  wave: OscillatorType;
+  notes: number[]; // Hz, lowest first
+  noteLength: number; // seconds between notes
+  decay: number; // seconds each note rings for
+}
+
+export const CHIME_PRESETS: Record<ChimePreset, ChimeDefinition> = {
+  classic: { label: 'Classic', wave: 'sine', notes: [400, 600, 800, 1000], noteLength: 0.1, decay: 0.4 },
+  bell: { label: 'Bell', wave: 'sine', notes: [523.25, 659.25, 783.99], noteLength: 0.18, decay: 1.2 },
+  marimba: { label: 'Marimba', wave: 'triangle', notes: [392, 493.88, 587.33, 783.99], noteLength: 0.12, decay: 0.35 },
+  digital: { label: 'Digital', wave: 'square', notes: [880, 880, 1318.51], noteLength: 0.12, decay: 0.08 },
+  soft: { label: 'Soft', wave: 'sine', notes: [329.63, 392, 493.88], noteLength: 0.3, decay: 0.9 }
+};
+
+export const FOCUS_LOOPS: { loop: FocusLoop; label: string }[] = [
+  { loop: 'none', label: 'Off' },
+  { loop: 'tick', label: 'Ticking' },
+  { loop: 'white', label: 'White noise' },
+  { loop: 'brown', label: 'Brown noise' }
+];
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  chime: 'classic',
+  volume: 60,
+  muted: false,
+  focusLoop: 'none',
+  warningMinutes: 0
+};
+
+// The loop sits well below the chimes so it stays in the background
+const LOOP_LEVEL = 0.25;
+
+export const parseSoundSettings = (stored: Record<string, unknown> | null): SoundSettings => {
+  const settings = { ...DEFAULT_SOUND_SETTINGS };
+  if (!stored) return settings;
+
+  if (typeof stored.chime === 'string' && stored.chime in CHIME_PRESETS) {
+    settings.chime = stored.chime as ChimePreset;
+  }
+  if (typeof stored.volume === 'number') {
+    settings.volume = Math.max(0, Math.min(100, Math.round(stored.volume)));
+  }
+  if (typeof stored.muted === 'boolean') settings.muted = stored.muted;
+  if (FOCUS_LOOPS.some(option => option.loop === stored.focusLoop)) {
+    settings.focusLoop = stored.focusLoop as FocusLoop;
+  }
+  if (typeof stored.warningMinutes === 'number') {
+    settings.warningMinutes = Math.max(0, Math.min(30, Math.round(stored.warningMinutes)));
+  }
+  return settings;
+};
+
+// One audio context and master gain for the whole app. Browsers cap the
+// number of contexts, so creating one per chime eventually fails.
+let audioContext: AudioContext | null = null;
+let masterGain: GainNode | null = null;
+let masterLevel = DEFAULT_SOUND_SETTINGS.volume / 100;
+
+const getOutput = () => {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext ??
+      (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    audioContext = new AudioContextClass();
+    masterGain = audioContext.createGain();
+    masterGain.gain.value = masterLevel;
+    masterGain.connect(audioContext.destination);
+  }
+  // Contexts start suspended until the page has seen a user gesture
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => {});
+  }
+  return { context: audioContext, output: masterGain! };
+};
+
+export const setMasterVolume = (settings: SoundSettings) => {
+  masterLevel = settings.muted ? 0 : settings.volume / 100;
+  if (audioContext && masterGain) {
+    masterGain.gain.setTargetAtTime(masterLevel, audioContext.currentTime, 0.05);
+  }
+};
+
+// Focus rises through the notes, a break falls through them and the warning
+// taps the lowest note twice
+const getCueNotes = (chime: ChimeDefinition, cue: SoundCue) => {
+  if (cue === 'focus') return chime.notes;
+  if (cue === 'break') return chime.notes.slice().reverse();
+  return [chime.notes[0], chime.notes[0]];
+};
+
+export const playChime = (preset: ChimePreset, cue: SoundCue) => {
+  if (masterLevel === 0) return;
+  try {
+    const { context, output } = getOutput();
+    const chime = CHIME_PRESETS[preset] ?? CHIME_PRESETS.classic;
+    const level = cue === 'warning' ? 0.15 : 0.25;
+
+    getCueNotes(chime, cue).forEach((frequency, index) => {
+      const start = context.currentTime + index * (cue === 'warning' ? 0.25 : chime.noteLength);
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = chime.wave;
+      oscillator.frequency.setValueAtTime(frequency, start);
+      gain.gain.setValueAtTime(level, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + chime.decay);
+      oscillator.connect(gain);
+      gain.connect(output);
+      oscillator.start(start);
+      oscillator.stop(start + chime.decay);
+    });
+  } catch (error) {
+    console.warn('Could not play chime:', error);
+  }
+};
+
+// A one second buffer that loops seamlessly: a short click for ticking, or
+// generated noise
+const createLoopBuffer = (context: AudioContext, loop: Exclude<FocusLoop, 'none'>) => {
+  const length = context.sampleRate;
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  if (loop === 'tick') {
+    const clickLength = Math.floor(context.sampleRate * 0.01);
+    for (let i = 0; i < clickLength; i++) {
+      data[i] = (Math.random() * 2 - 1) * (1 - i / clickLength);
+    }
+  } else if (loop === 'white') {
+    for (let i = 0; i < length; i++) data[i] = (Math.random() * 2 - 1) * 0.5;
+  } else {
+    // Brown noise is integrated white noise, which gives a deeper rumble
+    let last = 0;
+    for (let i = 0; i < length; i++) {
+      last = (last + 0.02 * (Math.random() * 2 - 1)) / 1.02;
+      data[i] = last * 3.5;
+    }
+  }
+  return buffer;
+};
+
+// Start a background loop. Returns a function that stops it.
+export const startFocusLoop = (loop: FocusLoop) => {
+  if (loop === 'none') return () => {};
+  try {
+    const { context, output } = getOutput();
+    const source = context.createBufferSource();
+    const gain = context.createGain();
+    source.buffer = createLoopBuffer(context, loop);
+    source.loop = true;
+    gain.gain.value = LOOP_LEVEL;
+    source.connect(gain);
+    gain.connect(output);
+    source.start();
+    return () => {
+      source.stop();
+      source.disconnect();
+      gain.disconnect();
+    };
+  } catch (error) {
+    console.warn('Could not start focus loop:', error);
+    return () => {};
+  }
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import type { SessionRecord } from '../types';
+import { getAverageSessionsPerDay } from './stats';
+
+const focusSession = (startedAt: number): SessionRecord => ({
+  id: `${startedAt}`,
+  kind: 'focus',
+  taskId: null,
+  startedAt,
+  plannedDuration: 1500,
+  pauses: [],
+  endedAt: startedAt + 1500 * 1000,
+  actualDuration: 1500,
+  outcome: 'completed'
+});
+
+describe('getAverageSessionsPerDay', () => {
+  it('counts sessions after midnight towards the day before the day start hour', () => {
+    const history = [
+      focusSession(new Date(2024, 2, 4, 23).getTime()),
+      focusSession(new Date(2024, 2, 5, 2).getTime())
+    ];
+    expect(getAverageSessionsPerDay(history)).toBe(1);
+    expect(getAverageSessionsPerDay(history, 4)).toBe(2);
+  });
+});
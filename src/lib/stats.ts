@@ -0,0 +1,217 @@
+import type { SessionRecord, Task, Weightage } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FocusBucket {
+  key: string;
+  label: string;
+  minutes: number;
+  sessions: number; // completed focus sessions
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+// Days begin at `dayStartHour` local time, so with a start at 4 a session
+// at 1am still counts towards the day before
+
+export const startOfDay = (time: number, dayStartHour = 0) => {
+  const date = new Date(time);
+  if (date.getHours() < dayStartHour) date.setDate(date.getDate() - 1);
+  date.setHours(dayStartHour, 0, 0, 0);
+  return date.getTime();
+};
+
+// Local calendar date the day starts on, e.g. 2024-03-09
+export const toDayKey = (time: number, dayStartHour = 0) => {
+  const date = new Date(startOfDay(time, dayStartHour));
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Weeks start on Monday
+export const startOfWeek = (time: number, dayStartHour = 0) => {
+  const date = new Date(startOfDay(time, dayStartHour));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+export const addDays = (time: number, days: number) => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const getFocusRecords = (history: SessionRecord[]) =>
+  history.filter(record => record.kind === 'focus');
+
+const addRecord = (bucket: FocusBucket, record: SessionRecord) => {
+  bucket.minutes += record.actualDuration / 60;
+  if (record.outcome === 'completed') bucket.sessions += 1;
+};
+
+const sortByMinutes = (buckets: FocusBucket[]) =>
+  buckets.sort((a, b) => b.minutes - a.minutes);
+
+// Focus time for each of the last `days` days, oldest first
+export const getDailyFocus = (history: SessionRecord[], days: number, now: number = Date.now(), dayStartHour = 0) => {
+  const today = startOfDay(now, dayStartHour);
+  const buckets = new Map<string, FocusBucket>();
+
+  for (let i = days - 1; i >= 0; i--) {
+    const day = addDays(today, -i);
+    const key = toDayKey(day, dayStartHour);
+    buckets.set(key, {
+      key,
+      label: new Date(day).toLocaleDateString(undefined, { weekday: 'short' }),
+      minutes: 0,
+      sessions: 0
+    });
+  }
+
+  getFocusRecords(history).forEach(record => {
+    const bucket = buckets.get(toDayKey(record.startedAt, dayStartHour));
+    if (bucket) addRecord(bucket, record);
+  });
+
+  return Array.from(buckets.values());
+};
+
+// Focus time for each of the last `weeks` weeks, oldest first
+export const getWeeklyFocus = (history: SessionRecord[], weeks: number, now: number = Date.now(), dayStartHour = 0) => {
+  const thisWeek = startOfWeek(now, dayStartHour);
+  const buckets = new Map<string, FocusBucket>();
+
+  for (let i = weeks - 1; i >= 0; i--) {
+    const week = addDays(thisWeek, -7 * i);
+    const key = toDayKey(week, dayStartHour);
+    buckets.set(key, {
+      key,
+      label: new Date(week).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      minutes: 0,
+      sessions: 0
+    });
+  }
+
+  getFocusRecords(history).forEach(record => {
+    const bucket = buckets.get(toDayKey(startOfWeek(record.startedAt, dayStartHour), dayStartHour));
+    if (bucket) addRecord(bucket, record);
+  });
+
+  return Array.from(buckets.values());
+};
+
+export const getFocusByTask = (history: SessionRecord[], tasks: Task[]) => {
+  const buckets = new Map<string, FocusBucket>();
+
+  getFocusRecords(history).forEach(record => {
+    const key = record.taskId ?? 'none';
+    if (!buckets.has(key)) {
+      const task = tasks.find(t => t.id === record.taskId);
+      buckets.set(key, { key, label: task?.title ?? 'Deleted task', minutes: 0, sessions: 0 });
+    }
+    addRecord(buckets.get(key)!, record);
+  });
+
+  return sortByMinutes(Array.from(buckets.values()));
+};
+
+// A session counts towards every tag of its task
+export const getFocusByTag = (history: SessionRecord[], tasks: Task[]) => {
+  const buckets = new Map<string, FocusBucket>();
+
+  getFocusRecords(history).forEach(record => {
+    const task = tasks.find(t => t.id === record.taskId);
+    const tags = task && task.tags.length > 0 ? task.tags : ['Untagged'];
+    tags.forEach(tag => {
+      if (!buckets.has(tag)) {
+        buckets.set(tag, { key: tag, label: tag, minutes: 0, sessions: 0 });
+      }
+      addRecord(buckets.get(tag)!, record);
+    });
+  });
+
+  return sortByMinutes(Array.from(buckets.values()));
+};
+
+export const getFocusByWeightage = (history: SessionRecord[], tasks: Task[]) => {
+  const levels: Weightage[] = ['critical', 'high', 'medium', 'low'];
+  const buckets = new Map<string, FocusBucket>(
+    levels.map(level => [level, { key: level, label: level, minutes: 0, sessions: 0 }])
+  );
+
+  getFocusRecords(history).forEach(record => {
+    const task = tasks.find(t => t.id === record.taskId);
+    if (task) addRecord(buckets.get(task.weightage)!, record);
+  });
+
+  return Array.from(buckets.values());
+};
+
+const hasCompletedSession = (bucket: FocusBucket) => bucket.sessions > 0;
+
+// Day keys of the days whose focus `counts`, by default those with at least
+// one completed focus session
+const getActiveDays = (
+  history: SessionRecord[],
+  dayStartHour = 0,
+  counts: (bucket: FocusBucket) => boolean = hasCompletedSession
+) => {
+  const buckets = new Map<string, FocusBucket>();
+  getFocusRecords(history).forEach(record => {
+    const key = toDayKey(record.startedAt, dayStartHour);
+    if (!buckets.has(key)) buckets.set(key, { key, label: key, minutes: 0, sessions: 0 });
+    addRecord(buckets.get(key)!, record);
+  });
+  return new Set(Array.from(buckets.values()).filter(counts).map(bucket => bucket.key));
+};
+
+// The current streak stays alive until the end of today, so a streak that
+// ended yesterday still counts
+export const getStreaks = (
+  history: SessionRecord[],
+  now: number = Date.now(),
+  dayStartHour = 0,
+  counts?: (bucket: FocusBucket) => boolean
+): Streaks => {
+  const activeDays = getActiveDays(history, dayStartHour, counts);
+  if (activeDays.size === 0) return { current: 0, longest: 0 };
+
+  let current = 0;
+  let day = startOfDay(now, dayStartHour);
+  if (!activeDays.has(toDayKey(day, dayStartHour))) day = addDays(day, -1);
+  while (activeDays.has(toDayKey(day, dayStartHour))) {
+    current += 1;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  Array.from(activeDays)
+    .map(key => new Date(`${key}T00:00:00`).getTime())
+    .sort((a, b) => a - b)
+    .forEach(time => {
+      // Allow for DST shifts when comparing consecutive days
+      run = previous !== null && Math.round((time - previous) / DAY_MS) === 1 ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = time;
+    });
+
+  return { current, longest };
+};
+
+// Completed focus sessions per day that had any, in days that begin at
+// `dayStartHour`
+export const getAverageSessionsPerDay = (history: SessionRecord[], dayStartHour = 0) => {
+  const activeDays = getActiveDays(history, dayStartHour);
+  if (activeDays.size === 0) return 0;
+  const completed = getFocusRecords(history).filter(record => record.outcome === 'completed').length;
+  return completed / activeDays.size;
+};
+
+export const getTotalFocusMinutes = (history: SessionRecord[]) =>
+  getFocusRecords(history).reduce((total, record) => total + record.actualDuration / 60, 0);
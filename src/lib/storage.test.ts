@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter, createStateStore, type StorageAdapter } from './storage';
+
+// Lets every queued flush and write finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// A memory adapter whose writes can be made to fail
+const createAdapter = () => {
+  const memory = createMemoryAdapter();
+  const writeMany = vi.fn(memory.writeMany);
+  const adapter: StorageAdapter = { ...memory, writeMany };
+  const failNextWrite = (error: unknown) => writeMany.mockRejectedValueOnce(error);
+  return { adapter, memory, writeMany, failNextWrite };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createStateStore', () => {
+  it('stores values set in the same tick in one write', async () => {
+    const { adapter, memory, writeMany } = createAdapter();
+    const store = createStateStore(adapter, { a: 0 });
+    store.set('a', 1);
+    store.setMany({ b: 2 });
+    expect(store.get('a', 0)).toBe(1);
+    expect(store.get('c', 'fallback')).toBe('fallback');
+
+    await settle();
+    expect(writeMany).toHaveBeenCalledOnce();
+    expect(await memory.readMany(['a', 'b'])).toEqual({ a: 1, b: 2 });
+  });
+
+  it('keeps a failed batch for the retry, with newer values winning', async () => {
+    const { adapter, memory, writeMany } = createAdapter();
+    let rejectWrite: (error: unknown) => void = () => {};
+    writeMany.mockImplementationOnce(() => new Promise((_, reject) => {
+      rejectWrite = reject;
+    }));
+    const store = createStateStore(adapter);
+
+    store.setMany({ a: 1, b: 1 });
+    await settle();
+    // Set while the first write is still running
+    store.set('b', 2);
+    rejectWrite(new Error('disk error'));
+    await settle();
+    expect(writeMany).toHaveBeenCalledOnce();
+    expect(store.problem()).toBe('failed');
+
+    store.retry();
+    await settle();
+    expect(writeMany).toHaveBeenLastCalledWith({ a: 1, b: 2 });
+    expect(await memory.readMany(['a', 'b'])).toEqual({ a: 1, b: 2 });
+  });
+
+  it('writes values set while held only once released', async () => {
+    const { adapter, memory, writeMany } = createAdapter();
+    const store = createStateStore(adapter);
+
+    store.hold(true);
+    store.set('a', 1);
+    store.set('a', 2);
+    await settle();
+    expect(writeMany).not.toHaveBeenCalled();
+    expect(store.get('a', 0)).toBe(2);
+
+    store.hold(false);
+    await settle();
+    expect(writeMany).toHaveBeenCalledOnce();
+    expect(await memory.readMany(['a'])).toEqual({ a: 2 });
+  });
+
+  it('reports a full disk apart from other failures and clears it after a retry', async () => {
+    const { adapter, failNextWrite } = createAdapter();
+    const store = createStateStore(adapter);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    failNextWrite(new DOMException('Storage is full', 'QuotaExceededError'));
+    store.set('a', 1);
+    await settle();
+    expect(store.problem()).toBe('quota');
+
+    failNextWrite(new Error('disk error'));
+    store.retry();
+    await settle();
+    expect(store.problem()).toBe('failed');
+
+    store.retry();
+    await settle();
+    expect(store.problem()).toBeNull();
+    expect(listener.mock.calls).toEqual([['quota'], ['failed'], [null]]);
+  });
+
+  it('keeps reporting storage that is unavailable', async () => {
+    const { adapter } = createAdapter();
+    const store = createStateStore(adapter, {}, 'unavailable');
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.set('a', 1);
+    await settle();
+    expect(store.problem()).toBe('unavailable');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,270 @@
+// Storage keys
+export const STORAGE_KEYS = {
+  TASKS: 'pomodoro_tasks',
+  CURRENT_TASK_INDEX: 'pomodoro_current_task_index',
+  SETTINGS: 'pomodoro_settings',
+  SESSION_DATA: 'pomodoro_session_data',
+  SESSION_HISTORY: 'pomodoro_session_history',
+  TIMER_STATE: 'pomodoro_timer_state',
+  TAGS: 'pomodoro_tags',
+  SOUND: 'pomodoro_sound',
+  NOTIFICATIONS: 'pomodoro_notifications',
+  SHORTCUTS: 'pomodoro_shortcuts',
+  SYNC: 'pomodoro_sync'
+};
+
+export type StorageBackend = 'indexeddb' | 'localstorage' | 'memory';
+
+// A place to keep JSON values by key. writeMany stores every entry or,
+// when it fails, none of them.
+export interface StorageAdapter {
+  backend: StorageBackend;
+  readMany: (keys: string[]) => Promise<Record<string, unknown>>;
+  writeMany: (entries: Record<string, unknown>) => Promise<void>;
+}
+
+// Why saving stopped working, if it did
+export type StorageProblem = 'quota' | 'unavailable' | 'failed';
+
+export const isQuotaExceeded = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Keeps values in memory only, for tests and browsers that allow no storage
+export const createMemoryAdapter = (initial: Record<string, unknown> = {}): StorageAdapter => {
+  const entries = new Map(Object.entries(initial));
+  // Copy through JSON so callers see the same values a real backend returns
+  const copy = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+  return {
+    backend: 'memory',
+    readMany: async keys =>
+      Object.fromEntries(keys.filter(key => entries.has(key)).map(key => [key, copy(entries.get(key))])),
+    writeMany: async values => {
+      const copies = Object.entries(values).map(([key, value]) => [key, copy(value)] as const);
+      copies.forEach(([key, value]) => entries.set(key, value));
+    }
+  };
+};
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  backend: 'localstorage',
+  readMany: async keys => {
+    const values: Record<string, unknown> = {};
+    keys.forEach(key => {
+      const item = localStorage.getItem(key);
+      if (item === null) return;
+      try {
+        values[key] = JSON.parse(item);
+      } catch (error) {
+        console.warn(`Ignoring unreadable value for ${key}:`, error);
+      }
+    });
+    return values;
+  },
+  // localStorage has no transactions, so a failed write puts back the
+  // values it already replaced
+  writeMany: async values => {
+    const serialized = Object.entries(values).map(([key, value]) => [key, JSON.stringify(value)] as const);
+    const previous = serialized.map(([key]) => [key, localStorage.getItem(key)] as const);
+    try {
+      serialized.forEach(([key, item]) => localStorage.setItem(key, item));
+    } catch (error) {
+      previous.forEach(([key, item]) => {
+        if (item === null) localStorage.removeItem(key);
+        else localStorage.setItem(key, item);
+      });
+      throw error;
+    }
+  }
+});
+
+// Set in localStorage once its data has been copied to IndexedDB
+const MIGRATED_KEY = 'pomodoro_migrated_to_indexeddb';
+
+const DATABASE_NAME = 'pomodoro';
+const OBJECT_STORE = 'state';
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run `work` in one transaction, resolving once it has committed
+const runTransaction = (
+  database: IDBDatabase,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => void
+) =>
+  new Promise<void>((resolve, reject) => {
+    const transaction = database.transaction(OBJECT_STORE, mode);
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    work(transaction.objectStore(OBJECT_STORE));
+  });
+
+export const createIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  const database = await openDatabase();
+  return {
+    backend: 'indexeddb',
+    readMany: async keys => {
+      const values: Record<string, unknown> = {};
+      await runTransaction(database, 'readonly', store => {
+        keys.forEach(key => {
+          const request = store.get(key);
+          request.onsuccess = () => {
+            if (request.result !== undefined) values[key] = request.result;
+          };
+        });
+      });
+      return values;
+    },
+    writeMany: values =>
+      runTransaction(database, 'readwrite', store => {
+        Object.entries(values).forEach(([key, value]) => store.put(value, key));
+      })
+  };
+};
+
+const localStorageAvailable = () => {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage !== null;
+  } catch {
+    return false;
+  }
+};
+
+// Synchronous access to stored state. Values are read once at startup;
+// writes update the cached copy right away and reach the backend in one
+// transaction per tick, so state set during the same render is stored
+// together.
+export interface StateStore {
+  backend: StorageBackend;
+  get: <T>(key: string, fallback: T) => T;
+  set: (key: string, value: unknown) => void;
+  setMany: (entries: Record<string, unknown>) => void;
+  retry: () => void; // try the writes that failed again
+  // While held, writes only reach the cache. Releasing stores the latest
+  // values, e.g. once this tab takes over from another one.
+  hold: (held: boolean) => void;
+  // Call `listener` whenever saving starts or stops failing. Returns a
+  // function that stops listening.
+  subscribe: (listener: (problem: StorageProblem | null) => void) => () => void;
+  problem: () => StorageProblem | null;
+}
+
+export const createStateStore = (
+  adapter: StorageAdapter,
+  values: Record<string, unknown> = {},
+  initialProblem: StorageProblem | null = null
+): StateStore => {
+  const cache = { ...values };
+  const listeners = new Set<(problem: StorageProblem | null) => void>();
+  let pending: Record<string, unknown> = {};
+  let scheduled = false;
+  let writing = false;
+  let held = false;
+  let problem = initialProblem;
+
+  const report = (next: StorageProblem | null) => {
+    if (next === problem) return;
+    problem = next;
+    listeners.forEach(listener => listener(problem));
+  };
+
+  const flush = async () => {
+    scheduled = false;
+    // The write in progress schedules another flush when it is done
+    if (held || writing || Object.keys(pending).length === 0) return;
+
+    const batch = pending;
+    pending = {};
+    writing = true;
+    try {
+      await adapter.writeMany(batch);
+      writing = false;
+      if (problem !== 'unavailable') report(null);
+      if (Object.keys(pending).length > 0) schedule();
+    } catch (error) {
+      writing = false;
+      // Keep the values for the next attempt. Newer ones set meanwhile win.
+      pending = { ...batch, ...pending };
+      console.warn('Failed to save state:', error);
+      report(isQuotaExceeded(error) ? 'quota' : 'failed');
+    }
+  };
+
+  const schedule = () => {
+    if (scheduled) return;
+    scheduled = true;
+    queueMicrotask(flush);
+  };
+
+  const setMany = (entries: Record<string, unknown>) => {
+    Object.assign(cache, entries);
+    Object.assign(pending, entries);
+    schedule();
+  };
+
+  return {
+    backend: adapter.backend,
+    get: <T>(key: string, fallback: T) => (key in cache ? (cache[key] as T) : fallback),
+    set: (key, value) => setMany({ [key]: value }),
+    setMany,
+    retry: schedule,
+    hold: value => {
+      held = value;
+      if (!held) schedule();
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    problem: () => problem
+  };
+};
+
+// Open the best storage this browser offers: IndexedDB, then localStorage,
+// then memory only. Data saved to localStorage by earlier versions is copied
+// to IndexedDB the first time it is used. The original stays in place for
+// older cached versions of the app, and a marker keeps it from being copied
+// again.
+export const openStateStore = async (keys: string[] = Object.values(STORAGE_KEYS)): Promise<StateStore> => {
+  const legacy = localStorageAvailable() ? createLocalStorageAdapter() : null;
+
+  try {
+    if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+    const adapter = await createIndexedDbAdapter();
+    let values = await adapter.readMany(keys);
+    if (legacy && Object.keys(values).length === 0 && localStorage.getItem(MIGRATED_KEY) === null) {
+      const saved = await legacy.readMany(keys);
+      if (Object.keys(saved).length > 0) {
+        await adapter.writeMany(saved);
+        values = saved;
+      }
+      try {
+        localStorage.setItem(MIGRATED_KEY, new Date().toISOString());
+      } catch (error) {
+        // Without the marker the copy only happens again if IndexedDB is emptied
+        console.warn('Could not mark localStorage data as migrated:', error);
+      }
+    }
+    return createStateStore(adapter, values);
+  } catch (error) {
+    console.warn('IndexedDB is unavailable, falling back:', error);
+  }
+
+  if (legacy) {
+    try {
+      return createStateStore(legacy, await legacy.readMany(keys));
+    } catch (error) {
+      console.warn('localStorage is unavailable:', error);
+    }
+  }
+  return createStateStore(createMemoryAdapter(), {}, 'unavailable');
+};
@@ -0,0 +1,8 @@
+import { createClient } from '@supabase/supabase-js';
+
+const url = import.meta.env.VITE_SUPABASE_URL;
+const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Cloud sync is optional. Without these variables the app keeps everything
+// on this device and the sync settings stay hidden.
+export const supabase = url && anonKey ? createClient(url, anonKey) : null;
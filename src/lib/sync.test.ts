@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../types';
+import { applyRemoteChanges, EMPTY_SYNC_STATE, markPushed, trackLocalChanges, type SyncRecord, type SyncSnapshot } from './sync';
+import { DEFAULT_TIMER_SETTINGS } from './timerProfiles';
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  duration: 25,
+  completed: false,
+  sessions: 0,
+  weightage: 'medium',
+  tags: [],
+  ...changes
+});
+
+const snapshot = (tasks: Task[]): SyncSnapshot => ({
+  tasks,
+  sessionHistory: [],
+  settings: DEFAULT_TIMER_SETTINGS,
+  tags: []
+});
+
+const queuedIds = (queue: SyncRecord[]) => queue.map(record => `${record.collection}:${record.id}`);
+
+// Everything in the snapshot, already pushed
+const synced = (local: SyncSnapshot, at: number) => {
+  const tracked = trackLocalChanges(EMPTY_SYNC_STATE, local, at);
+  return markPushed(tracked, tracked.queue);
+};
+
+describe('trackLocalChanges', () => {
+  it('queues every record of a first snapshot', () => {
+    const state = trackLocalChanges(EMPTY_SYNC_STATE, snapshot([task('a')]), 1000);
+    expect(queuedIds(state.queue)).toEqual(['tasks:a', 'settings:timer']);
+    expect(state.queue[0]).toMatchObject({ data: { id: 'a', position: 0 }, updatedAt: 1000, deleted: false });
+  });
+
+  it('leaves the state alone when nothing changed', () => {
+    const local = snapshot([task('a')]);
+    const state = synced(local, 1000);
+    expect(trackLocalChanges(state, local, 2000)).toBe(state);
+  });
+
+  it('queues a deletion once for a removed record', () => {
+    const state = synced(snapshot([task('a'), task('b')]), 1000);
+    const removed = trackLocalChanges(state, snapshot([task('a')]), 2000);
+    expect(removed.queue).toEqual([{ collection: 'tasks', id: 'b', data: null, updatedAt: 2000, deleted: true }]);
+
+    const pushed = markPushed(removed, removed.queue);
+    expect(trackLocalChanges(pushed, snapshot([task('a')]), 3000)).toBe(pushed);
+  });
+});
+
+describe('applyRemoteChanges', () => {
+  it('does not send back a pulled record whose keys come in another order', () => {
+    const local = snapshot([]);
+    const { title, id, ...rest } = task('a');
+    const reordered = { position: 0, ...rest, title, id };
+    const pulled = applyRemoteChanges(local, EMPTY_SYNC_STATE, {
+      records: [{ collection: 'tasks', id: 'a', data: reordered, updatedAt: 1000, deleted: false }],
+      cursor: 'c1'
+    });
+    expect(pulled.snapshot.tasks).toEqual([task('a')]);
+
+    const tracked = trackLocalChanges(pulled.state, pulled.snapshot, 2000);
+    expect(queuedIds(tracked.queue)).toEqual(['settings:timer']);
+  });
+
+  it('keeps a newer local edit over an older remote one', () => {
+    const state = trackLocalChanges(synced(snapshot([task('a')]), 1000), snapshot([task('a', { title: 'Local' })]), 3000);
+    const { snapshot: merged, state: next } = applyRemoteChanges(snapshot([task('a', { title: 'Local' })]), state, {
+      records: [{ collection: 'tasks', id: 'a', data: { ...task('a', { title: 'Remote' }), position: 0 }, updatedAt: 2000, deleted: false }],
+      cursor: 'c1'
+    });
+    expect(merged.tasks[0].title).toBe('Local');
+    expect(queuedIds(next.queue)).toEqual(['tasks:a']);
+    expect(next.cursor).toBe('c1');
+  });
+
+  it('drops a queued local edit that loses to a newer remote one', () => {
+    const state = trackLocalChanges(synced(snapshot([task('a')]), 1000), snapshot([task('a', { title: 'Local' })]), 2000);
+    const { snapshot: merged, state: next } = applyRemoteChanges(snapshot([task('a', { title: 'Local' })]), state, {
+      records: [{ collection: 'tasks', id: 'a', data: { ...task('a', { title: 'Remote' }), position: 0 }, updatedAt: 3000, deleted: false }],
+      cursor: 'c1'
+    });
+    expect(merged.tasks[0].title).toBe('Remote');
+    expect(next.queue).toEqual([]);
+    expect(trackLocalChanges(next, merged, 4000)).toBe(next);
+  });
+
+  it('removes a record deleted remotely without queueing it again', () => {
+    const local = snapshot([task('a'), task('b')]);
+    const { snapshot: merged, state } = applyRemoteChanges(local, synced(local, 1000), {
+      records: [{ collection: 'tasks', id: 'b', data: null, updatedAt: 2000, deleted: true }],
+      cursor: 'c1'
+    });
+    expect(merged.tasks.map(item => item.id)).toEqual(['a']);
+    expect(trackLocalChanges(state, merged, 3000)).toBe(state);
+  });
+
+  it('does not send back settings filled in from an older device', () => {
+    const local = snapshot([]);
+    // Goals and the day start came later
+    const older = Object.fromEntries(
+      Object.entries({ ...DEFAULT_TIMER_SETTINGS, autoStartFocus: true })
+        .filter(([key]) => !['dailyGoal', 'weeklyGoal', 'dayStartHour'].includes(key))
+    );
+    const { snapshot: merged, state } = applyRemoteChanges(local, synced(local, 1000), {
+      records: [{ collection: 'settings', id: 'timer', data: older, updatedAt: 2000, deleted: false }],
+      cursor: 'c1'
+    });
+    expect(merged.settings).toEqual({ ...DEFAULT_TIMER_SETTINGS, autoStartFocus: true });
+    expect(trackLocalChanges(state, merged, 3000)).toBe(state);
+  });
+});
@@ -0,0 +1,285 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SessionRecord, TagDefinition, Task, TimerSettings } from '../types';
+import { parseTimerSettings } from './timerProfiles';
+
+export type SyncCollection = 'tasks' | 'sessions' | 'settings' | 'tags';
+
+// One synced item: a task, a history entry, a tag or the settings
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: string;
+  data: unknown;
+  updatedAt: number; // epoch ms of the last edit, the newest edit wins
+  deleted: boolean;
+}
+
+// The data that is synced between devices
+export interface SyncSnapshot {
+  tasks: Task[];
+  sessionHistory: SessionRecord[];
+  settings: TimerSettings;
+  tags: TagDefinition[];
+}
+
+interface KnownRecord {
+  hash: string; // empty for deleted records
+  updatedAt: number;
+}
+
+export interface SyncState {
+  userId: string | null;
+  initialized: boolean; // the first full pull for this account has been applied
+  cursor: string | null; // synced_at of the newest record pulled so far
+  known: Record<string, KnownRecord>; // last synced version of each record
+  queue: SyncRecord[]; // local edits not yet pushed
+}
+
+export interface PulledChanges {
+  records: SyncRecord[];
+  cursor: string | null;
+}
+
+export const EMPTY_SYNC_STATE: SyncState = {
+  userId: null,
+  initialized: false,
+  cursor: null,
+  known: {},
+  queue: []
+};
+
+interface SyncRow {
+  collection: SyncCollection;
+  id: string;
+  data: unknown;
+  updated_at: number;
+  deleted: boolean;
+  synced_at: string;
+}
+
+const PAGE_SIZE = 1000;
+
+// Records written by transactions that commit out of order can carry a
+// slightly older synced_at than ones already pulled. Pulling a little
+// overlap catches them; applying a record twice does no harm.
+const PULL_OVERLAP_MS = 5000;
+
+const recordKey = (collection: SyncCollection, id: string) => `${collection}:${id}`;
+
+const splitKey = (key: string) => {
+  const separator = key.indexOf(':');
+  return { collection: key.slice(0, separator) as SyncCollection, id: key.slice(separator + 1) };
+};
+
+// JSON with object keys in sorted order. Postgres jsonb does not keep key
+// order, so pulled data has to serialize the same as the local copy.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// FNV-1a over the canonical JSON text, enough to notice that a record changed
+const hashData = (data: unknown) => {
+  const text = canonicalJson(data);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+// Tasks carry their position so the queue order syncs as well
+const toRecords = (snapshot: SyncSnapshot) => [
+  ...snapshot.tasks.map((task, position) => ({
+    collection: 'tasks' as const,
+    id: task.id,
+    data: { ...task, position } as unknown
+  })),
+  ...snapshot.sessionHistory.map(record => ({ collection: 'sessions' as const, id: record.id, data: record as unknown })),
+  ...snapshot.tags.map(tag => ({ collection: 'tags' as const, id: tag.name.toLowerCase(), data: tag as unknown })),
+  { collection: 'settings' as const, id: 'timer', data: snapshot.settings as unknown }
+];
+
+// Compare the snapshot with the last synced version of every record and
+// queue whatever was added, changed or removed since
+export const trackLocalChanges = (state: SyncState, snapshot: SyncSnapshot, now: number = Date.now()): SyncState => {
+  const known = { ...state.known };
+  const queue = new Map(state.queue.map(record => [recordKey(record.collection, record.id), record]));
+  const present = new Set<string>();
+  let changed = false;
+
+  toRecords(snapshot).forEach(({ collection, id, data }) => {
+    const key = recordKey(collection, id);
+    const hash = hashData(data);
+    present.add(key);
+    if (known[key]?.hash === hash) return;
+    known[key] = { hash, updatedAt: now };
+    queue.set(key, { collection, id, data, updatedAt: now, deleted: false });
+    changed = true;
+  });
+
+  Object.keys(known).forEach(key => {
+    if (present.has(key) || known[key].hash === '') return;
+    const { collection, id } = splitKey(key);
+    known[key] = { hash: '', updatedAt: now };
+    queue.set(key, { collection, id, data: null, updatedAt: now, deleted: true });
+    changed = true;
+  });
+
+  return changed ? { ...state, known, queue: Array.from(queue.values()) } : state;
+};
+
+// Drop queued records once they are stored on the server, unless they were
+// edited again in the meantime
+export const markPushed = (state: SyncState, pushed: SyncRecord[]): SyncState => {
+  if (pushed.length === 0) return state;
+  const pushedAt = new Map(pushed.map(record => [recordKey(record.collection, record.id), record.updatedAt]));
+  return {
+    ...state,
+    queue: state.queue.filter(record => pushedAt.get(recordKey(record.collection, record.id)) !== record.updatedAt)
+  };
+};
+
+const withoutPosition = (data: unknown) => {
+  const task = { ...(data as Task & { position?: number }) };
+  delete task.position;
+  return task as Task;
+};
+
+// The data as it ends up locally. Settings are parsed, which fills in
+// fields that devices running older versions do not send.
+const toLocalData = (record: SyncRecord) =>
+  record.collection === 'settings' ? parseTimerSettings(record.data as Record<string, unknown>) : record.data;
+
+// Merge records from the server into the local data. A remote record only
+// wins when it was edited after the local copy. Known hashes are taken from
+// the data as applied, so trackLocalChanges does not send it straight back.
+export const applyRemoteChanges = (
+  snapshot: SyncSnapshot,
+  state: SyncState,
+  pulled: PulledChanges
+): { snapshot: SyncSnapshot; state: SyncState } => {
+  const known = { ...state.known };
+  const accepted = pulled.records.filter(record => {
+    const key = recordKey(record.collection, record.id);
+    if (known[key] && known[key].updatedAt >= record.updatedAt) return false;
+    known[key] = { hash: record.deleted ? '' : hashData(toLocalData(record)), updatedAt: record.updatedAt };
+    return true;
+  });
+
+  const nextState: SyncState = {
+    ...state,
+    initialized: true,
+    cursor: pulled.cursor ?? state.cursor,
+    known,
+    // Local edits that lost against a newer remote one are not pushed
+    queue: state.queue.filter(record => record.updatedAt >= known[recordKey(record.collection, record.id)].updatedAt)
+  };
+  if (accepted.length === 0) return { snapshot, state: nextState };
+
+  const merge = <T>(items: T[], collection: SyncCollection, getId: (item: T) => string, parse: (data: unknown) => T) => {
+    const byId = new Map(items.map(item => [getId(item), item]));
+    accepted
+      .filter(record => record.collection === collection)
+      .forEach(record => {
+        if (record.deleted) byId.delete(record.id);
+        else byId.set(record.id, parse(record.data));
+      });
+    return Array.from(byId.values());
+  };
+
+  // Remote tasks go to their synced position, local ones keep theirs
+  const positions = new Map(snapshot.tasks.map((task, index) => [task.id, index]));
+  accepted.forEach(record => {
+    const position = (record.data as { position?: unknown } | null)?.position;
+    if (record.collection === 'tasks' && typeof position === 'number') positions.set(record.id, position);
+  });
+  const tasks = merge(snapshot.tasks, 'tasks', task => task.id, withoutPosition)
+    .map((task, index) => ({ task, position: positions.get(task.id) ?? index }))
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.task);
+
+  const settingsRecord = accepted.filter(record => record.collection === 'settings' && !record.deleted).pop();
+
+  return {
+    snapshot: {
+      tasks,
+      sessionHistory: merge(snapshot.sessionHistory, 'sessions', record => record.id, data => data as SessionRecord)
+        .sort((a, b) => a.startedAt - b.startedAt),
+      settings: settingsRecord ? toLocalData(settingsRecord) as TimerSettings : snapshot.settings,
+      tags: merge(snapshot.tags, 'tags', tag => tag.name.toLowerCase(), data => data as TagDefinition)
+    },
+    state: nextState
+  };
+};
+
+let running: Promise<void> | null = null;
+
+// Run one sync at a time. A call made while another sync is still running
+// is dropped, since that sync will pick up the same changes.
+export const runExclusive = async (task: () => Promise<void>) => {
+  if (running) return;
+  running = task().finally(() => {
+    running = null;
+  });
+  return running;
+};
+
+// Send queued records to the server. Returns the records that were stored.
+export const pushChanges = async (client: SupabaseClient, queue: SyncRecord[]) => {
+  const pushed: SyncRecord[] = [];
+  for (let start = 0; start < queue.length; start += PAGE_SIZE) {
+    const batch = queue.slice(start, start + PAGE_SIZE);
+    const { error } = await client.rpc('sync_push', {
+      records: batch.map(record => ({
+        collection: record.collection,
+        id: record.id,
+        data: record.data,
+        updated_at: record.updatedAt,
+        deleted: record.deleted
+      }))
+    });
+    if (error) throw new Error(error.message);
+    pushed.push(...batch);
+  }
+  return pushed;
+};
+
+// Fetch every record stored since `cursor`, or everything without one
+export const pullChanges = async (client: SupabaseClient, cursor: string | null): Promise<PulledChanges> => {
+  const since = cursor ? new Date(new Date(cursor).getTime() - PULL_OVERLAP_MS).toISOString() : null;
+  const records: SyncRecord[] = [];
+  let newest = cursor;
+
+  for (let page = 0; ; page++) {
+    let query = client
+      .from('sync_records')
+      .select('collection, id, data, updated_at, deleted, synced_at')
+      .order('synced_at', { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (since) query = query.gt('synced_at', since);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    const rows = (data ?? []) as SyncRow[];
+    rows.forEach(row => {
+      records.push({
+        collection: row.collection,
+        id: row.id,
+        data: row.data,
+        updatedAt: Number(row.updated_at),
+        deleted: row.deleted
+      });
+      if (!newest || row.synced_at > newest) newest = row.synced_at;
+    });
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return { records, cursor: newest };
+};
@@ -0,0 +1,157 @@
+// Coordination between open tabs of the app. One tab leads: it runs the
+// timer, plays sounds, syncs and writes storage. The others mirror its state
+// and send it the changes they want made.
+
+export type TabRole = 'leader' | 'follower';
+
+export type TabMessage =
+  // The leader is still there; `since` is when it took over
+  | { type: 'heartbeat'; from: string; since: number }
+  // The leader is closing, so another tab should take over now
+  | { type: 'resign'; from: string }
+  // A new tab asks the leader for its state
+  | { type: 'hello'; from: string }
+  | { type: 'state'; from: string; key: string; value: unknown }
+  // A change a follower asks the leader to make
+  | { type: 'command'; from: string; command: unknown };
+
+const CHANNEL_NAME = 'pomodoro-tabs';
+const HEARTBEAT_MS = 1000;
+// Background tabs may have their timers slowed to about once a second, so
+// allow a few missed heartbeats before taking over
+const LEADER_TIMEOUT_MS = 3500;
+// How long a new tab waits for a leader to answer before leading itself
+const ELECTION_MS = 300;
+
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+let channel: BroadcastChannel | null = null;
+let role: TabRole = 'follower';
+let leaderId: string | null = null;
+let leaderSince = 0;
+let lastHeartbeat = 0;
+// The last value the leader sent for each key, so followers do not send it back
+const received = new Map<string, unknown>();
+const roleListeners = new Set<(role: TabRole) => void>();
+const messageListeners = new Set<(message: TabMessage) => void>();
+
+// Distributes over the union, so each message keeps its own fields
+type Outgoing<M> = M extends TabMessage ? Omit<M, 'from'> : never;
+
+const post = (message: Outgoing<TabMessage>) => channel?.postMessage({ ...message, from: tabId });
+
+const setRole = (next: TabRole) => {
+  if (next === 'leader') {
+    leaderId = tabId;
+    leaderSince = Date.now();
+    post({ type: 'heartbeat', since: leaderSince });
+  }
+  if (next === role) return;
+  role = next;
+  roleListeners.forEach(listener => listener(role));
+};
+
+const handleMessage = (message: TabMessage) => {
+  switch (message.type) {
+    case 'heartbeat':
+      // Two leaders can meet after a sleeping tab wakes up. The newer one
+      // wins, since the older one stopped answering for a while.
+      if (role === 'leader' && (message.since < leaderSince || (message.since === leaderSince && message.from < tabId))) {
+        return;
+      }
+      leaderId = message.from;
+      lastHeartbeat = Date.now();
+      setRole('follower');
+      return;
+    case 'resign':
+      if (message.from !== leaderId) return;
+      leaderId = null;
+      lastHeartbeat = 0;
+      // Spread the followers out so the first to take over is heard by the rest
+      setTimeout(checkLeader, Math.random() * ELECTION_MS);
+      return;
+    case 'hello':
+      if (role !== 'leader') return;
+      post({ type: 'heartbeat', since: leaderSince });
+      break;
+    case 'state':
+      if (role === 'follower') {
+        if (message.from !== leaderId) return;
+        received.set(message.key, message.value);
+      }
+      break;
+    case 'command':
+      if (role !== 'leader') return;
+      break;
+  }
+  messageListeners.forEach(listener => listener(message));
+};
+
+const checkLeader = () => {
+  if (role === 'leader') {
+    post({ type: 'heartbeat', since: leaderSince });
+  } else if (Date.now() - lastHeartbeat > LEADER_TIMEOUT_MS) {
+    setRole('leader');
+  }
+};
+
+// Join the other open tabs. A tab that hears from no leader takes over; where
+// BroadcastChannel is missing every tab leads, as before.
+export const joinTabs = () => {
+  if (channel || role === 'leader') return;
+  if (typeof BroadcastChannel === 'undefined') {
+    setRole('leader');
+    return;
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = event => handleMessage(event.data as TabMessage);
+  lastHeartbeat = Date.now() - LEADER_TIMEOUT_MS + ELECTION_MS;
+  post({ type: 'hello' });
+  setTimeout(checkLeader, ELECTION_MS + 1);
+  setInterval(checkLeader, HEARTBEAT_MS);
+
+  window.addEventListener('pagehide', () => {
+    if (role !== 'leader') return;
+    post({ type: 'resign' });
+    // A page restored from the back/forward cache rejoins as a follower
+    leaderId = null;
+    lastHeartbeat = Date.now();
+    setRole('follower');
+  });
+};
+
+export const getTabRole = () => role;
+
+// Call `listener` whenever this tab starts or stops leading. Returns a
+// function that stops listening.
+export const onTabRoleChange = (listener: (role: TabRole) => void) => {
+  roleListeners.add(listener);
+  return () => {
+    roleListeners.delete(listener);
+  };
+};
+
+// Call `listener` with state from the leader (or, on the leader, from
+// followers), commands for the leader and hellos from new tabs
+export const listenToTabs = (listener: (message: TabMessage) => void) => {
+  messageListeners.add(listener);
+  return () => {
+    messageListeners.delete(listener);
+  };
+};
+
+// Tell the other tabs about a change to shared state. Followers only speak
+// once they know the leader, and do not echo what it just sent them.
+export const shareState = (key: string, value: unknown) => {
+  if (role === 'follower' && (!leaderId || Object.is(received.get(key), value))) return;
+  post({ type: 'state', key, value });
+};
+
+// Ask the leader to make a change. Returns false when there is no other tab
+// leading, so the caller should make the change itself.
+export const sendToLeader = (command: unknown) => {
+  if (role === 'leader' || !leaderId) return false;
+  post({ type: 'command', command });
+  return true;
+};
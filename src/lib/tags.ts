@@ -0,0 +1,90 @@
+import type { TagColor, TagDefinition, Task } from '../types';
+
+// Full class names so Tailwind picks them up
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  blue: 'bg-blue-500/20 text-blue-300 border-blue-400/30',
+  purple: 'bg-purple-500/20 text-purple-300 border-purple-400/30',
+  pink: 'bg-pink-500/20 text-pink-300 border-pink-400/30',
+  teal: 'bg-teal-500/20 text-teal-300 border-teal-400/30',
+  green: 'bg-green-500/20 text-green-300 border-green-400/30',
+  amber: 'bg-amber-500/20 text-amber-300 border-amber-400/30',
+  rose: 'bg-rose-500/20 text-rose-300 border-rose-400/30',
+  slate: 'bg-slate-500/20 text-slate-300 border-slate-400/30'
+};
+
+export const TAG_SWATCH_CLASSES: Record<TagColor, string> = {
+  blue: 'bg-blue-400',
+  purple: 'bg-purple-400',
+  pink: 'bg-pink-400',
+  teal: 'bg-teal-400',
+  green: 'bg-green-400',
+  amber: 'bg-amber-400',
+  rose: 'bg-rose-400',
+  slate: 'bg-slate-400'
+};
+
+export const TAG_COLORS = Object.keys(TAG_COLOR_CLASSES) as TagColor[];
+
+// Stable starting color for a new tag, so the same name always looks the same
+export const getDefaultTagColor = (name: string): TagColor => {
+  let hash = 0;
+  for (const char of name.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
+};
+
+export const findTag = (registry: TagDefinition[], name: string) =>
+  registry.find(tag => tag.name.toLowerCase() === name.trim().toLowerCase());
+
+export const getTagColorClass = (registry: TagDefinition[], name: string) =>
+  TAG_COLOR_CLASSES[findTag(registry, name)?.color ?? getDefaultTagColor(name)];
+
+// Spell a typed tag the way it is already registered, so "Work" and "work"
+// do not end up as two tags
+export const normalizeTagName = (registry: TagDefinition[], name: string) =>
+  findTag(registry, name)?.name ?? name.trim();
+
+// Register any tag used by a task that the registry does not know yet.
+// Returns the same array when nothing changed.
+export const syncTagRegistry = (registry: TagDefinition[], tasks: Task[]) => {
+  const missing: TagDefinition[] = [];
+  tasks.forEach(task => task.tags.forEach(name => {
+    if (!findTag(registry, name) && !findTag(missing, name)) {
+      missing.push({ name, color: getDefaultTagColor(name) });
+    }
+  }));
+  return missing.length > 0 ? [...registry, ...missing] : registry;
+};
+
+// Registered tags starting with (then containing) the typed text
+export const suggestTags = (registry: TagDefinition[], input: string, exclude: string[] = []) => {
+  const query = input.trim().toLowerCase();
+  const excluded = new Set(exclude.map(name => name.toLowerCase()));
+  const candidates = registry.filter(tag => !excluded.has(tag.name.toLowerCase()));
+  if (!query) return candidates;
+
+  return [
+    ...candidates.filter(tag => tag.name.toLowerCase().startsWith(query)),
+    ...candidates.filter(tag => !tag.name.toLowerCase().startsWith(query) && tag.name.toLowerCase().includes(query))
+  ];
+};
+
+// Rename a tag on every task. Renaming onto an existing tag merges the two.
+export const renameTagInTasks = (tasks: Task[], from: string, to: string) =>
+  tasks.map(task => {
+    if (!task.tags.includes(from)) return task;
+    const tags = task.tags.map(tag => (tag === from ? to : tag));
+    return { ...task, tags: Array.from(new Set(tags)) };
+  });
+
+export const renameTagInRegistry = (registry: TagDefinition[], from: string, to: string) => {
+  const target = findTag(registry, to);
+  if (target && target.name !== from) {
+    return registry.filter(tag => tag.name !== from);
+  }
+  return registry.map(tag => (tag.name === from ? { ...tag, name: to } : tag));
+};
+
+export const removeTagFromTasks = (tasks: Task[], name: string) =>
+  tasks.map(task => (task.tags.includes(name) ? { ...task, tags: task.tags.filter(tag => tag !== name) } : task));
@@ -0,0 +1,76 @@
+import type { Task, Weightage } from '../types';
+
+export interface TaskFilter {
+  query: string;
+  tags: string[];
+  weightages: Weightage[];
+}
+
+export type TaskGrouping = 'none' | 'tag' | 'weightage';
+
+export interface TaskEntry {
+  task: Task;
+  index: number; // position in the full task list
+}
+
+export interface TaskGroup {
+  key: string;
+  label: string | null;
+  entries: TaskEntry[];
+}
+
+export const EMPTY_TASK_FILTER: TaskFilter = { query: '', tags: [], weightages: [] };
+
+const WEIGHTAGE_ORDER: Weightage[] = ['critical', 'high', 'medium', 'low'];
+
+export const isTaskFilterActive = (filter: TaskFilter) =>
+  filter.query.trim() !== '' || filter.tags.length > 0 || filter.weightages.length > 0;
+
+// A task matches when the search text appears in its title or description,
+// it has at least one of the selected tags, and its weightage is selected
+export const matchesTaskFilter = (task: Task, filter: TaskFilter) => {
+  const query = filter.query.trim().toLowerCase();
+  if (query && !`${task.title}\n${task.description ?? ''}`.toLowerCase().includes(query)) {
+    return false;
+  }
+  if (filter.tags.length > 0 && !task.tags.some(tag => filter.tags.includes(tag))) {
+    return false;
+  }
+  if (filter.weightages.length > 0 && !filter.weightages.includes(task.weightage)) {
+    return false;
+  }
+  return true;
+};
+
+// Every tag in use, alphabetically
+export const getAllTags = (tasks: Task[]) =>
+  Array.from(new Set(tasks.flatMap(task => task.tags))).sort((a, b) => a.localeCompare(b));
+
+// Group tasks for display. With tag grouping a task shows up under each of
+// its tags, and tasks without tags are collected at the end.
+export const groupTaskEntries = (entries: TaskEntry[], grouping: TaskGrouping): TaskGroup[] => {
+  if (grouping === 'none') {
+    return [{ key: 'all', label: null, entries }];
+  }
+
+  if (grouping === 'weightage') {
+    return WEIGHTAGE_ORDER
+      .map(weightage => ({
+        key: weightage,
+        label: weightage,
+        entries: entries.filter(entry => entry.task.weightage === weightage)
+      }))
+      .filter(group => group.entries.length > 0);
+  }
+
+  const groups: TaskGroup[] = getAllTags(entries.map(entry => entry.task)).map(tag => ({
+    key: `tag:${tag}`,
+    label: tag,
+    entries: entries.filter(entry => entry.task.tags.includes(tag))
+  }));
+  const untagged = entries.filter(entry => entry.task.tags.length === 0);
+  if (untagged.length > 0) {
+    groups.push({ key: 'untagged', label: 'Untagged', entries: untagged });
+  }
+  return groups;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '../types';
+import { getCurrentTask, taskReducer, type TaskState } from './taskStore';
+
+const task = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  duration: 25,
+  completed: false,
+  sessions: 0,
+  weightage: 'medium',
+  tags: [],
+  ...changes
+});
+
+const state = (tasks: Task[], currentTaskIndex = 0): TaskState => ({ tasks, currentTaskIndex });
+
+const ids = ({ tasks }: TaskState) => tasks.map(({ id }) => id);
+
+describe('taskReducer', () => {
+  it('makes the first open task current when adding', () => {
+    const added = taskReducer(state([task('a', { completed: true })]), { type: 'add', task: task('b') });
+    expect(added.currentTaskIndex).toBe(1);
+
+    const second = taskReducer(added, { type: 'add', task: task('c') });
+    expect(second.currentTaskIndex).toBe(1);
+  });
+
+  it('keeps the current task when deleting one before it', () => {
+    const result = taskReducer(state([task('a'), task('b'), task('c')], 2), { type: 'delete', taskId: 'a' });
+    expect(ids(result)).toEqual(['b', 'c']);
+    expect(getCurrentTask(result)?.id).toBe('c');
+  });
+
+  it('moves to the previous open task when deleting the last one', () => {
+    const result = taskReducer(state([task('a'), task('b', { completed: true }), task('c')], 2), {
+      type: 'delete',
+      taskId: 'c'
+    });
+    expect(getCurrentTask(result)?.id).toBe('a');
+  });
+
+  it('archives a completed task and moves on to the next open one', () => {
+    const result = taskReducer(state([task('a'), task('b', { completed: true }), task('c')]), {
+      type: 'complete',
+      taskId: 'a',
+      now: 1000
+    });
+    expect(result.tasks[0]).toMatchObject({ completed: true, completedAt: 1000 });
+    expect(getCurrentTask(result)?.id).toBe('c');
+  });
+
+  it('picks a restored task up when nothing else is open', () => {
+    const result = taskReducer(state([task('a', { completed: true, completedAt: 1000 })]), {
+      type: 'restore',
+      taskId: 'a'
+    });
+    expect(result.tasks[0]).toMatchObject({ completed: false, completedAt: undefined });
+    expect(getCurrentTask(result)?.id).toBe('a');
+  });
+
+  it('keeps the same task selected after reordering', () => {
+    const before = state([task('a'), task('b'), task('c')], 0);
+    const result = taskReducer(before, { type: 'reorder', tasks: [before.tasks[2], before.tasks[1], before.tasks[0]] });
+    expect(getCurrentTask(result)?.id).toBe('a');
+    expect(result.currentTaskIndex).toBe(2);
+  });
+
+  it('only selects open tasks by id', () => {
+    const before = state([task('a'), task('b', { completed: true })]);
+    expect(taskReducer(before, { type: 'selectTask', taskId: 'b' })).toBe(before);
+    expect(taskReducer(before, { type: 'selectTask', taskId: 'missing' })).toBe(before);
+  });
+
+  it('credits a session to the task', () => {
+    const result = taskReducer(state([task('a', { sessions: 2 })]), { type: 'creditSession', taskId: 'a' });
+    expect(result.tasks[0].sessions).toBe(3);
+  });
+});
@@ -0,0 +1,102 @@
+import type { Task } from '../types';
+import { removeTagFromTasks, renameTagInTasks } from './tags';
+import { findActiveTaskIndex, toggleSubtask } from './tasks';
+
+// The task queue and which task is being worked on
+export interface TaskState {
+  tasks: Task[];
+  currentTaskIndex: number;
+}
+
+export type TaskAction =
+  | { type: 'add'; task: Task }
+  | { type: 'update'; taskId: string; changes: Partial<Task> }
+  | { type: 'delete'; taskId: string }
+  | { type: 'complete'; taskId: string; now: number }
+  | { type: 'restore'; taskId: string }
+  // A new order for the same tasks; the current task stays selected
+  | { type: 'reorder'; tasks: Task[] }
+  | { type: 'select'; index: number }
+  // Select an open task by id, ignored if it is done or gone
+  | { type: 'selectTask'; taskId: string }
+  | { type: 'creditSession'; taskId: string }
+  | { type: 'toggleSubtask'; taskId: string; subtaskId: string }
+  | { type: 'renameTag'; from: string; to: string }
+  | { type: 'removeTag'; name: string }
+  // Everything at once, e.g. after an import or a sync
+  | { type: 'replace'; tasks: Task[]; currentTaskIndex: number };
+
+// The task being worked on, or null when it is done or there is none
+export const getCurrentTask = ({ tasks, currentTaskIndex }: TaskState) =>
+  tasks[currentTaskIndex] && !tasks[currentTaskIndex].completed ? tasks[currentTaskIndex] : null;
+
+const updateTask = (tasks: Task[], taskId: string, update: (task: Task) => Task) =>
+  tasks.map(task => (task.id === taskId ? update(task) : task));
+
+export const taskReducer = (state: TaskState, action: TaskAction): TaskState => {
+  const { tasks, currentTaskIndex } = state;
+
+  switch (action.type) {
+    case 'add':
+      return {
+        tasks: [...tasks, action.task],
+        // If there is no open task yet, the new one becomes current
+        currentTaskIndex: getCurrentTask(state) ? currentTaskIndex : tasks.length
+      };
+    case 'update':
+      return { ...state, tasks: updateTask(tasks, action.taskId, task => ({ ...task, ...action.changes })) };
+    case 'delete': {
+      const taskIndex = tasks.findIndex(task => task.id === action.taskId);
+      if (taskIndex === -1) return state;
+      const remaining = tasks.filter(task => task.id !== action.taskId);
+      let nextIndex = currentTaskIndex;
+      if (taskIndex === currentTaskIndex && currentTaskIndex >= tasks.length - 1) {
+        nextIndex = findActiveTaskIndex(remaining, tasks.length - 2);
+      } else if (taskIndex < currentTaskIndex) {
+        nextIndex = currentTaskIndex - 1;
+      } else if (taskIndex === currentTaskIndex) {
+        nextIndex = findActiveTaskIndex(remaining, currentTaskIndex);
+      }
+      return { tasks: remaining, currentTaskIndex: nextIndex };
+    }
+    case 'complete': {
+      const updated = updateTask(tasks, action.taskId, task => ({ ...task, completed: true, completedAt: action.now }));
+      const wasCurrent = tasks[currentTaskIndex]?.id === action.taskId;
+      return {
+        tasks: updated,
+        currentTaskIndex: wasCurrent ? findActiveTaskIndex(updated, currentTaskIndex) : currentTaskIndex
+      };
+    }
+    case 'restore':
+      return {
+        tasks: updateTask(tasks, action.taskId, task => ({ ...task, completed: false, completedAt: undefined })),
+        // Pick the restored task up straight away if nothing else is open
+        currentTaskIndex: getCurrentTask(state)
+          ? currentTaskIndex
+          : tasks.findIndex(task => task.id === action.taskId)
+      };
+    case 'reorder': {
+      const currentId = tasks[currentTaskIndex]?.id;
+      return {
+        tasks: action.tasks,
+        currentTaskIndex: currentId ? action.tasks.findIndex(task => task.id === currentId) : currentTaskIndex
+      };
+    }
+    case 'select':
+      return { ...state, currentTaskIndex: action.index };
+    case 'selectTask': {
+      const index = tasks.findIndex(task => task.id === action.taskId && !task.completed);
+      return index === -1 ? state : { ...state, currentTaskIndex: index };
+    }
+    case 'creditSession':
+      return { ...state, tasks: updateTask(tasks, action.taskId, task => ({ ...task, sessions: task.sessions + 1 })) };
+    case 'toggleSubtask':
+      return { ...state, tasks: updateTask(tasks, action.taskId, task => toggleSubtask(task, action.subtaskId)) };
+    case 'renameTag':
+      return { ...state, tasks: renameTagInTasks(tasks, action.from, action.to) };
+    case 'removeTag':
+      return { ...state, tasks: removeTagFromTasks(tasks, action.name) };
+    case 'replace':
+      return { tasks: action.tasks, currentTaskIndex: action.currentTaskIndex };
+  }
+};
@@ -0,0 +1,112 @@
+import type { Task } from '../types';
+
+// Index of the nearest incomplete task after (1) or before (-1) `fromIndex`,
+// or -1 if there is none in that direction. `include` narrows the rotation
+// further, e.g. to the tasks matching the task list filter.
+export const findAdjacentTaskIndex = (
+  tasks: Task[],
+  fromIndex: number,
+  direction: 1 | -1,
+  include: (task: Task) => boolean = () => true
+) => {
+  for (let i = fromIndex + direction; i >= 0 && i < tasks.length; i += direction) {
+    if (!tasks[i].completed && include(tasks[i])) return i;
+  }
+  return -1;
+};
+
+// `preferredIndex` if that task is still open, otherwise the closest open task
+// after it, then before it. Falls back to a clamped index when all are done.
+export const findActiveTaskIndex = (tasks: Task[], preferredIndex: number) => {
+  const index = Math.min(Math.max(0, preferredIndex), Math.max(0, tasks.length - 1));
+  if (tasks[index] && !tasks[index].completed) return index;
+
+  const next = findAdjacentTaskIndex(tasks, index, 1);
+  if (next !== -1) return next;
+  const previous = findAdjacentTaskIndex(tasks, index, -1);
+  return previous !== -1 ? previous : index;
+};
+
+// Pomodoros left before the task reaches its estimate, 0 once it is over
+export const getRemainingPomodoros = (task: Task) =>
+  task.estimatedPomodoros ? Math.max(0, task.estimatedPomodoros - task.sessions) : 0;
+
+export const isOverEstimate = (task: Task) =>
+  !!task.estimatedPomodoros && task.sessions > task.estimatedPomodoros;
+
+// How close estimates came to reality for finished tasks, as a percentage.
+// 100 means every completed task took exactly as many pomodoros as planned.
+// Returns null until at least one estimated task has been completed.
+export const getEstimateAccuracy = (tasks: Task[]) => {
+  const finished = tasks.filter(task => task.completed && task.estimatedPomodoros);
+  if (finished.length === 0) return null;
+
+  const totalError = finished.reduce((total, task) => {
+    const estimate = task.estimatedPomodoros!;
+    return total + Math.abs(task.sessions - estimate) / estimate;
+  }, 0);
+  return Math.max(0, Math.round(100 - (totalError / finished.length) * 100));
+};
+
+export const hasSubtasks = (task: Task) => (task.subtasks?.length ?? 0) > 0;
+
+export const areAllSubtasksDone = (task: Task) =>
+  hasSubtasks(task) && task.subtasks!.every(subtask => subtask.done);
+
+export const toggleSubtask = (task: Task, subtaskId: string): Task => ({
+  ...task,
+  subtasks: (task.subtasks ?? []).map(subtask =>
+    subtask.id === subtaskId ? { ...subtask, done: !subtask.done } : subtask
+  )
+});
+
+export type TaskSortKey = 'weightage' | 'remaining' | 'tag';
+
+const WEIGHTAGE_RANK: Record<Task['weightage'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+};
+
+// Minutes of planned work left, Infinity for tasks without an estimate
+export const getRemainingMinutes = (task: Task) =>
+  task.estimatedPomodoros ? getRemainingPomodoros(task) * task.duration : Infinity;
+
+const firstTag = (task: Task) => [...task.tags].sort((a, b) => a.localeCompare(b))[0];
+
+const TASK_COMPARATORS: Record<TaskSortKey, (a: Task, b: Task) => number> = {
+  weightage: (a, b) => WEIGHTAGE_RANK[a.weightage] - WEIGHTAGE_RANK[b.weightage],
+  remaining: (a, b) => {
+    const left = getRemainingMinutes(a);
+    const right = getRemainingMinutes(b);
+    return left === right ? 0 : left < right ? -1 : 1;
+  },
+  tag: (a, b) => {
+    const left = firstTag(a);
+    const right = firstTag(b);
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    return left.localeCompare(right);
+  }
+};
+
+// One-shot sort of the open tasks. Archived tasks keep their relative order
+// and move to the end, where they are out of the way of the rotation.
+export const sortTasks = (tasks: Task[], key: TaskSortKey) => [
+  ...tasks.filter(task => !task.completed).sort(TASK_COMPARATORS[key]),
+  ...tasks.filter(task => task.completed)
+];
+
+// Move a task to the position currently held by `targetId`
+export const moveTask = (tasks: Task[], taskId: string, targetId: string) => {
+  const from = tasks.findIndex(task => task.id === taskId);
+  const to = tasks.findIndex(task => task.id === targetId);
+  if (from === -1 || to === -1 || from === to) return tasks;
+
+  const reordered = tasks.slice();
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ActiveSession } from '../types';
+import { runCountdown, runTimer, type TimerEnvironment } from './timerEngine';
+
+// A clock that only moves when the test says so
+const createFakeEnvironment = (start = 0) => {
+  let time = start;
+  let nextHandle = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+  const wakeListeners = new Set<() => void>();
+
+  const env: TimerEnvironment = {
+    now: () => time,
+    setTimeout: (callback, delay) => {
+      nextHandle += 1;
+      timers.set(nextHandle, { at: time + delay, callback });
+      return nextHandle;
+    },
+    clearTimeout: handle => {
+      timers.delete(handle as number);
+    },
+    onWake: callback => {
+      wakeListeners.add(callback);
+      return () => {
+        wakeListeners.delete(callback);
+      };
+    }
+  };
+
+  // Move the clock forward, running every timer that falls due on the way
+  const advance = (ms: number) => {
+    const end = time + ms;
+    for (;;) {
+      const [due] = [...timers.entries()]
+        .filter(([, timer]) => timer.at <= end)
+        .sort(([, a], [, b]) => a.at - b.at);
+      if (!due) break;
+      const [handle, timer] = due;
+      timers.delete(handle);
+      time = timer.at;
+      timer.callback();
+    }
+    time = end;
+  };
+
+  // Move the clock forward without running timers, like a tab that was
+  // asleep, then wake it up
+  const sleep = (ms: number) => {
+    time += ms;
+    wakeListeners.forEach(listener => listener());
+  };
+
+  return { env, advance, sleep, pendingTimers: () => timers.size, wakeListeners: () => wakeListeners.size };
+};
+
+const session = (changes: Partial<ActiveSession> = {}): ActiveSession => ({
+  id: 'session',
+  kind: 'focus',
+  taskId: 'task',
+  startedAt: 0,
+  plannedDuration: 3,
+  pauses: [],
+  ...changes
+});
+
+describe('runTimer', () => {
+  it('ticks every second and completes at zero', () => {
+    const { env, advance, pendingTimers } = createFakeEnvironment();
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+
+    runTimer(session(), { onTick, onComplete }, env);
+    expect(onTick.mock.calls.map(([seconds]) => seconds)).toEqual([3]);
+
+    advance(2999);
+    expect(onTick.mock.calls.map(([seconds]) => seconds)).toEqual([3, 2, 1]);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    advance(1);
+    expect(onTick).toHaveBeenLastCalledWith(0);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(pendingTimers()).toBe(0);
+  });
+
+  it('leaves out time spent paused', () => {
+    const { env, advance } = createFakeEnvironment(4000);
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+
+    runTimer(session({ plannedDuration: 5, pauses: [{ start: 1000, end: 4000 }] }), { onTick, onComplete }, env);
+    expect(onTick).toHaveBeenLastCalledWith(4);
+
+    advance(3999);
+    expect(onComplete).not.toHaveBeenCalled();
+    advance(1);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('only reports the time left of a paused session', () => {
+    const { env, advance, pendingTimers } = createFakeEnvironment(2000);
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+
+    runTimer(session({ plannedDuration: 60, pauses: [{ start: 1000 }] }), { onTick, onComplete }, env);
+    expect(onTick).toHaveBeenCalledWith(59);
+    expect(pendingTimers()).toBe(0);
+
+    advance(120 * 1000);
+    expect(onTick).toHaveBeenCalledTimes(1);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('catches up when the tab wakes after the end', () => {
+    const { env, sleep } = createFakeEnvironment();
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+
+    runTimer(session({ plannedDuration: 60 }), { onTick, onComplete }, env);
+    sleep(10 * 60 * 1000);
+    expect(onTick).toHaveBeenLastCalledWith(0);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops ticking once stopped', () => {
+    const { env, advance, pendingTimers, wakeListeners } = createFakeEnvironment();
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+
+    const stop = runTimer(session(), { onTick, onComplete }, env);
+    stop();
+    advance(5000);
+    expect(onTick).toHaveBeenCalledTimes(1);
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(pendingTimers()).toBe(0);
+    expect(wakeListeners()).toBe(0);
+  });
+});
+
+describe('runCountdown', () => {
+  it('ticks on whole seconds of the time left', () => {
+    const { env, advance } = createFakeEnvironment();
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+
+    runCountdown(2500, { onTick, onComplete }, env);
+    advance(500);
+    expect(onTick.mock.calls.map(([seconds]) => seconds)).toEqual([3, 2]);
+
+    advance(2000);
+    expect(onTick.mock.calls.map(([seconds]) => seconds)).toEqual([3, 2, 1, 0]);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('completes straight away when the moment has passed', () => {
+    const { env, pendingTimers } = createFakeEnvironment(5000);
+    const onComplete = vi.fn();
+
+    runCountdown(1000, { onTick: () => {}, onComplete }, env);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(pendingTimers()).toBe(0);
+  });
+});
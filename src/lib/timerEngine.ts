@@ -0,0 +1,133 @@
+import type { ActiveSession } from '../types';
+import { getPausedTime, isSessionPaused } from './sessionHistory';
+
+// Everything the engine needs from the outside world, so tests can drive it
+// with a fake clock instead of real timers
+export interface TimerEnvironment {
+  now: () => number;
+  setTimeout: (callback: () => void, delay: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+  onWake?: (callback: () => void) => () => void;
+}
+
+export interface TimerCallbacks {
+  onTick: (remainingSeconds: number) => void;
+  onComplete?: () => void;
+}
+
+// Re-check the clock whenever the tab becomes visible again or the window
+// regains focus, since timers may have been throttled or frozen meanwhile
+const listenForWake = (callback: () => void) => {
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') callback();
+  };
+  document.addEventListener('visibilitychange', handleVisibility);
+  window.addEventListener('focus', callback);
+  return () => {
+    document.removeEventListener('visibilitychange', handleVisibility);
+    window.removeEventListener('focus', callback);
+  };
+};
+
+export const browserEnvironment: TimerEnvironment = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => window.setTimeout(callback, delay),
+  clearTimeout: handle => window.clearTimeout(handle as number),
+  onWake: listenForWake
+};
+
+// Time the session has actually been running, in ms
+export const getElapsedTime = (session: ActiveSession, now: number) =>
+  Math.max(0, now - session.startedAt - getPausedTime(session.pauses, now));
+
+export const getRemainingTime = (session: ActiveSession, now: number) =>
+  Math.max(0, session.plannedDuration * 1000 - getElapsedTime(session, now));
+
+// Whole seconds left, rounded up so the display only hits 00:00 at the end
+export const getRemainingSeconds = (session: ActiveSession, now: number) =>
+  Math.ceil(getRemainingTime(session, now) / 1000);
+
+// The wall-clock moment a running session reaches zero. For a paused session
+// this moves forward for as long as the pause lasts.
+export const getSessionEndTime = (session: ActiveSession, now: number = Date.now()) =>
+  session.startedAt + session.plannedDuration * 1000 + getPausedTime(session.pauses, now);
+
+// Count down to zero against the wall clock. Ticks land on whole second
+// boundaries of the remaining time, and a separate one-shot timeout aims at
+// the end time so completion fires on time even if the ticks were throttled.
+// Returns a function that stops the countdown.
+const runClock = (
+  getRemaining: (now: number) => number,
+  callbacks: TimerCallbacks,
+  env: TimerEnvironment
+) => {
+  let tickHandle: unknown = null;
+  let completeHandle: unknown = null;
+  let stopWaking = () => {};
+  let done = false;
+
+  const clearTimers = () => {
+    if (tickHandle !== null) env.clearTimeout(tickHandle);
+    if (completeHandle !== null) env.clearTimeout(completeHandle);
+    tickHandle = null;
+    completeHandle = null;
+  };
+
+  const scheduleTick = () => {
+    const remaining = getRemaining(env.now());
+    if (tickHandle !== null) env.clearTimeout(tickHandle);
+    tickHandle = env.setTimeout(() => {
+      tickHandle = null;
+      sync();
+    }, remaining % 1000 || 1000);
+  };
+
+  const sync = () => {
+    if (done) return;
+    const remaining = getRemaining(env.now());
+    if (remaining <= 0) {
+      done = true;
+      clearTimers();
+      stopWaking();
+      callbacks.onTick(0);
+      callbacks.onComplete?.();
+      return;
+    }
+    callbacks.onTick(Math.ceil(remaining / 1000));
+    scheduleTick();
+  };
+
+  completeHandle = env.setTimeout(() => {
+    completeHandle = null;
+    sync();
+  }, getRemaining(env.now()));
+  stopWaking = env.onWake ? env.onWake(sync) : () => {};
+  sync();
+
+  return () => {
+    done = true;
+    clearTimers();
+    stopWaking();
+  };
+};
+
+// Count a running session down. A paused session just reports the time it
+// has left.
+export const runTimer = (
+  session: ActiveSession,
+  callbacks: TimerCallbacks,
+  env: TimerEnvironment = browserEnvironment
+) => {
+  if (isSessionPaused(session)) {
+    callbacks.onTick(getRemainingSeconds(session, env.now()));
+    return () => {};
+  }
+  return runClock(now => getRemainingTime(session, now), callbacks, env);
+};
+
+// Count down to a fixed wall-clock moment, e.g. before an automatic transition
+export const runCountdown = (
+  endTime: number,
+  callbacks: TimerCallbacks,
+  env: TimerEnvironment = browserEnvironment
+) => runClock(now => Math.max(0, endTime - now), callbacks, env);
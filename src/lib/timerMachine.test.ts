@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { PendingTransition } from '../types';
+import { DEFAULT_TIMER_STATE, restoreTimerState, type TimerAction, timerReducer, type TimerState } from './timerMachine';
+
+const run = (actions: TimerAction[], state: TimerState = DEFAULT_TIMER_STATE) => actions.reduce(timerReducer, state);
+
+const startFocus: TimerAction = { type: 'start', taskId: 'task', plannedDuration: 1500, now: 0 };
+
+const finishFocus = (transition: PendingTransition | null = null, promptNote = false): TimerAction => ({
+  type: 'finishFocus',
+  breakType: 'long',
+  breakSeconds: 900,
+  transition,
+  promptNote
+});
+
+describe('timerReducer', () => {
+  it('starts a focus session when idle', () => {
+    const state = run([startFocus]);
+    expect(state.phase).toBe('focus');
+    expect(state.activeSession).toMatchObject({ kind: 'focus', taskId: 'task', plannedDuration: 1500, startedAt: 0 });
+    expect(state.timeLeft).toBe(1500);
+  });
+
+  it('pauses and resumes the running session', () => {
+    const paused = run([startFocus, { type: 'pause', now: 1000 }]);
+    expect(paused.phase).toBe('paused');
+    expect(paused.activeSession?.pauses).toEqual([{ start: 1000 }]);
+
+    const resumed = timerReducer(paused, { type: 'resume', now: 4000 });
+    expect(resumed.phase).toBe('focus');
+    expect(resumed.activeSession?.pauses).toEqual([{ start: 1000, end: 4000 }]);
+    expect(resumed.timeLeft).toBe(1499);
+  });
+
+  it('ignores actions that do not fit the phase', () => {
+    const running = run([startFocus]);
+    expect(timerReducer(running, startFocus)).toBe(running);
+    expect(timerReducer(running, { type: 'resume', now: 1000 })).toBe(running);
+    expect(timerReducer(running, { type: 'finishBreak', focusSeconds: 1500, transition: null })).toBe(running);
+    expect(timerReducer(DEFAULT_TIMER_STATE, { type: 'pause', now: 1000 })).toBe(DEFAULT_TIMER_STATE);
+    expect(timerReducer(DEFAULT_TIMER_STATE, { type: 'tick', timeLeft: 10 })).toBe(DEFAULT_TIMER_STATE);
+
+    const paused = timerReducer(running, { type: 'pause', now: 1000 });
+    expect(timerReducer(paused, finishFocus())).toBe(paused);
+  });
+
+  it('moves from a finished focus session to the break that is due', () => {
+    const transition: PendingTransition = { dueAt: 10000, session: null, nextTaskId: 'next' };
+    const breakReady = run([startFocus, finishFocus(transition)]);
+    expect(breakReady).toMatchObject({
+      phase: 'break_ready',
+      activeSession: null,
+      breakType: 'long',
+      timeLeft: 900,
+      pendingTransition: transition
+    });
+
+    const onBreak = timerReducer(breakReady, { type: 'start', taskId: 'task', plannedDuration: 900, now: 2000 });
+    expect(onBreak.phase).toBe('break');
+    expect(onBreak.activeSession?.kind).toBe('long_break');
+    expect(onBreak.pendingTransition).toBeNull();
+
+    const idle = timerReducer(onBreak, { type: 'finishBreak', focusSeconds: 1500, transition: null });
+    expect(idle).toMatchObject({ phase: 'idle', activeSession: null, timeLeft: 1500 });
+  });
+
+  it('asks for a note about the finished session until its break is over', () => {
+    const running = run([startFocus]);
+    const breakReady = timerReducer(running, finishFocus(null, true));
+    expect(breakReady.notePromptSessionId).toBe(running.activeSession?.id);
+
+    const onBreak = timerReducer(breakReady, { type: 'start', taskId: 'task', plannedDuration: 900, now: 0 });
+    expect(onBreak.notePromptSessionId).toBe(running.activeSession?.id);
+    expect(timerReducer(onBreak, { type: 'dismissNotePrompt' }).notePromptSessionId).toBeNull();
+    expect(timerReducer(onBreak, { type: 'finishBreak', focusSeconds: 1500, transition: null }).notePromptSessionId)
+      .toBeNull();
+  });
+
+  it('resets to the start of the phase and stops back to focus', () => {
+    const onBreak = run([startFocus, finishFocus(), { type: 'start', taskId: 'task', plannedDuration: 900, now: 0 }]);
+    expect(timerReducer(onBreak, { type: 'reset', seconds: 900 })).toMatchObject({ phase: 'break_ready', timeLeft: 900 });
+    expect(timerReducer(onBreak, { type: 'stop', seconds: 1500 })).toMatchObject({ phase: 'idle', timeLeft: 1500 });
+  });
+
+  it('extends a session without changing whether it runs', () => {
+    const paused = run([startFocus, { type: 'pause', now: 0 }]);
+    const extended = timerReducer(paused, { type: 'extend', seconds: 300, taskId: 'task', now: 0 });
+    expect(extended.phase).toBe('paused');
+    expect(extended.activeSession?.plannedDuration).toBe(1800);
+  });
+
+  it('starts an extra break when extending between sessions', () => {
+    const state = timerReducer(DEFAULT_TIMER_STATE, { type: 'extend', seconds: 300, taskId: 'task', now: 0 });
+    expect(state.phase).toBe('break');
+    expect(state.activeSession).toMatchObject({ kind: 'short_break', plannedDuration: 300 });
+  });
+
+  it('starts the session of an automatic step at the moment it was due', () => {
+    const transition: PendingTransition = {
+      dueAt: 10000,
+      session: { kind: 'long_break', taskId: 'task', plannedDuration: 900 },
+      nextTaskId: null
+    };
+    const breakReady = run([startFocus, finishFocus(transition)]);
+    const state = timerReducer(breakReady, { type: 'applyTransition', transition, now: 12000 });
+    expect(state.phase).toBe('break');
+    expect(state.activeSession?.startedAt).toBe(10000);
+    expect(state.timeLeft).toBe(898);
+  });
+
+  it('drops an automatic step that does not fit the phase', () => {
+    const transition: PendingTransition = {
+      dueAt: 10000,
+      session: { kind: 'focus', taskId: 'task', plannedDuration: 1500 },
+      nextTaskId: null
+    };
+    const breakReady = run([startFocus, finishFocus(transition)]);
+    const state = timerReducer(breakReady, { type: 'applyTransition', transition, now: 10000 });
+    expect(state).toMatchObject({ phase: 'break_ready', activeSession: null, pendingTransition: null });
+
+    const running = run([startFocus]);
+    expect(timerReducer(running, { type: 'schedule', transition })).toBe(running);
+  });
+});
+
+describe('restoreTimerState', () => {
+  it('reads the flags older versions stored', () => {
+    const activeSession = { id: 'break', kind: 'short_break' as const, taskId: null, startedAt: 0, plannedDuration: 300, pauses: [] };
+    expect(restoreTimerState({ isActive: true, isBreak: true, activeSession }, 60000)).toMatchObject({
+      phase: 'break',
+      breakType: 'short',
+      timeLeft: 240
+    });
+    expect(restoreTimerState({ isActive: false, isBreak: true, activeSession: null, timeLeft: 300 })).toMatchObject({
+      phase: 'break_ready',
+      timeLeft: 300
+    });
+    expect(restoreTimerState({ isActive: false, isBreak: false, activeSession: null }).phase).toBe('idle');
+  });
+
+  it('brings back a session that ran out while the page was closed with no time left', () => {
+    const stored = run([startFocus]);
+    expect(restoreTimerState(stored, 2000 * 1000)).toMatchObject({ phase: 'focus', timeLeft: 0 });
+  });
+});
@@ -0,0 +1,218 @@
+import type { ActiveSession, PauseInterval, PendingTransition, SessionKind } from '../types';
+import { annotatePause, extendSession, pauseSession, resumeSession, startSession } from './sessionHistory';
+import { getRemainingSeconds } from './timerEngine';
+
+export type BreakType = 'short' | 'long';
+
+// The timer is always in exactly one phase:
+// idle         no session; the next one is a focus session
+// focus        focus session running
+// paused       focus session paused
+// break_ready  a break is due but not started
+// break        break running
+// break_paused break paused
+export type TimerPhase = 'idle' | 'focus' | 'paused' | 'break_ready' | 'break' | 'break_paused';
+
+type WaitingPhase = 'idle' | 'break_ready';
+type SessionPhase = 'focus' | 'paused' | 'break' | 'break_paused';
+
+// Timer state kept across reloads so a running session survives them. Only
+// the phases with a session carry one, and only the phases between sessions
+// can have an automatic step pending.
+export type TimerState = {
+  breakType: BreakType; // the break that is due, running or came last
+  timeLeft: number; // seconds shown on the timer
+  // Focus session waiting for a note, asked for until its break is over
+  notePromptSessionId: string | null;
+} & (
+  | { phase: WaitingPhase; activeSession: null; pendingTransition: PendingTransition | null }
+  | { phase: SessionPhase; activeSession: ActiveSession; pendingTransition: null }
+);
+
+export const DEFAULT_TIMER_STATE: TimerState = {
+  phase: 'idle',
+  activeSession: null,
+  pendingTransition: null,
+  breakType: 'short',
+  timeLeft: 0,
+  notePromptSessionId: null
+};
+
+export const isTimerRunning = ({ phase }: TimerState) => phase === 'focus' || phase === 'break';
+
+export const isBreakPhase = ({ phase }: TimerState) =>
+  phase === 'break_ready' || phase === 'break' || phase === 'break_paused';
+
+const toBreakType = (kind: SessionKind, fallback: BreakType): BreakType =>
+  kind === 'focus' ? fallback : kind === 'long_break' ? 'long' : 'short';
+
+// The note prompt lasts while the break after the session does
+const keepNotePrompt = (state: TimerState, phase: TimerPhase) =>
+  phase === 'focus' || phase === 'paused' || phase === 'idle' ? null : state.notePromptSessionId;
+
+const waiting = (
+  state: TimerState,
+  phase: WaitingPhase,
+  timeLeft: number,
+  pendingTransition: PendingTransition | null = null
+): TimerState => ({
+  phase,
+  activeSession: null,
+  pendingTransition,
+  breakType: state.breakType,
+  timeLeft,
+  notePromptSessionId: keepNotePrompt(state, phase)
+});
+
+const withSession = (state: TimerState, session: ActiveSession, now: number, running: boolean): TimerState => {
+  const isFocus = session.kind === 'focus';
+  const phase = running ? (isFocus ? 'focus' : 'break') : (isFocus ? 'paused' : 'break_paused');
+  return {
+    phase,
+    activeSession: session,
+    pendingTransition: null,
+    breakType: toBreakType(session.kind, state.breakType),
+    timeLeft: getRemainingSeconds(session, now),
+    notePromptSessionId: keepNotePrompt(state, phase)
+  };
+};
+
+// Older versions stored isActive and isBreak flags instead of a phase
+type StoredTimerState = Partial<TimerState> & { isActive?: boolean; isBreak?: boolean };
+
+const getStoredPhase = (stored: StoredTimerState): TimerPhase => {
+  if (stored.phase) return stored.phase;
+  if (stored.isBreak) {
+    if (!stored.activeSession) return 'break_ready';
+    return stored.isActive ? 'break' : 'break_paused';
+  }
+  if (!stored.activeSession) return 'idle';
+  return stored.isActive ? 'focus' : 'paused';
+};
+
+// Timer state from the last visit. A session that ran out while the page was
+// closed comes back with no time left and is credited right away.
+export const restoreTimerState = (stored: StoredTimerState, now: number = Date.now()): TimerState => {
+  const phase = getStoredPhase(stored);
+  const state: TimerState = {
+    ...DEFAULT_TIMER_STATE,
+    breakType: stored.breakType ?? DEFAULT_TIMER_STATE.breakType,
+    timeLeft: stored.timeLeft ?? DEFAULT_TIMER_STATE.timeLeft,
+    notePromptSessionId: stored.notePromptSessionId ?? null
+  };
+  if (stored.activeSession) {
+    return withSession(state, stored.activeSession, now, phase === 'focus' || phase === 'break');
+  }
+  return waiting(state, phase === 'idle' ? 'idle' : 'break_ready', state.timeLeft, stored.pendingTransition ?? null);
+};
+
+export type TimerAction =
+  // Show the length of the focus session that would start next
+  | { type: 'prepare'; seconds: number }
+  // Start a focus session when idle, or the break that is due
+  | { type: 'start'; taskId: string | null; plannedDuration: number; now: number }
+  | { type: 'pause'; now: number }
+  | { type: 'resume'; now: number }
+  | { type: 'tick'; timeLeft: number }
+  | { type: 'annotatePause'; details: Pick<PauseInterval, 'interruption' | 'note'> }
+  // Add time to the session, or start an extra break between sessions
+  | { type: 'extend'; seconds: number; taskId: string | null; now: number }
+  // Back to the start of the current phase; null keeps the time shown
+  | { type: 'reset'; seconds: number | null }
+  // End the session and return to focus
+  | { type: 'stop'; seconds: number | null }
+  // End the focus session, asking for a note about it if `promptNote`
+  | {
+      type: 'finishFocus';
+      breakType: BreakType;
+      breakSeconds: number;
+      transition: PendingTransition | null;
+      promptNote: boolean;
+    }
+  | { type: 'finishBreak'; focusSeconds: number | null; transition: PendingTransition | null }
+  | { type: 'schedule'; transition: PendingTransition }
+  | { type: 'cancelTransition' }
+  | { type: 'dismissNotePrompt' }
+  // Start the session of an automatic step at the moment it was due, so a
+  // tab that slept through the countdown catches up
+  | { type: 'applyTransition'; transition: PendingTransition; now: number }
+  // Take over the state of the tab that runs the timer
+  | { type: 'replace'; state: TimerState }
+  | { type: 'clear' };
+
+// Actions that do not apply to the current phase leave the state as it is
+export const timerReducer = (state: TimerState, action: TimerAction): TimerState => {
+  switch (action.type) {
+    case 'prepare':
+      return state.phase === 'idle' && state.timeLeft !== action.seconds ? { ...state, timeLeft: action.seconds } : state;
+    case 'start': {
+      if (state.phase !== 'idle' && state.phase !== 'break_ready') return state;
+      const kind: SessionKind = state.phase === 'idle' ? 'focus' : `${state.breakType}_break`;
+      return withSession(state, startSession(kind, action.taskId, action.plannedDuration, action.now), action.now, true);
+    }
+    case 'pause':
+      return state.phase === 'focus' || state.phase === 'break'
+        ? withSession(state, pauseSession(state.activeSession, action.now), action.now, false)
+        : state;
+    case 'resume':
+      return state.phase === 'paused' || state.phase === 'break_paused'
+        ? withSession(state, resumeSession(state.activeSession, action.now), action.now, true)
+        : state;
+    case 'tick':
+      return isTimerRunning(state) && state.timeLeft !== action.timeLeft ? { ...state, timeLeft: action.timeLeft } : state;
+    case 'annotatePause':
+      return state.phase === 'paused' || state.phase === 'break_paused'
+        ? { ...state, activeSession: annotatePause(state.activeSession, action.details) }
+        : state;
+    case 'extend':
+      if (state.activeSession) {
+        return withSession(state, extendSession(state.activeSession, action.seconds), action.now, isTimerRunning(state));
+      }
+      return withSession(
+        state,
+        startSession(`${state.breakType}_break`, action.taskId, action.seconds, action.now),
+        action.now,
+        true
+      );
+    case 'reset':
+      return waiting(state, isBreakPhase(state) ? 'break_ready' : 'idle', action.seconds ?? state.timeLeft);
+    case 'stop':
+      return waiting(state, 'idle', action.seconds ?? state.timeLeft);
+    case 'finishFocus':
+      return state.phase === 'focus'
+        ? {
+            ...waiting(state, 'break_ready', action.breakSeconds, action.transition),
+            breakType: action.breakType,
+            notePromptSessionId: action.promptNote ? state.activeSession.id : null
+          }
+        : state;
+    case 'finishBreak':
+      return state.phase === 'break'
+        ? waiting(state, 'idle', action.focusSeconds ?? state.timeLeft, action.transition)
+        : state;
+    case 'schedule':
+      return state.activeSession ? state : { ...state, pendingTransition: action.transition };
+    case 'cancelTransition':
+      return state.pendingTransition ? { ...state, pendingTransition: null } : state;
+    case 'dismissNotePrompt':
+      return state.notePromptSessionId ? { ...state, notePromptSessionId: null } : state;
+    case 'applyTransition': {
+      if (state.activeSession) return state;
+      const { session, dueAt } = action.transition;
+      // Focus sessions start from idle and breaks once they are due
+      if (!session || (session.kind === 'focus') !== (state.phase === 'idle')) {
+        return { ...state, pendingTransition: null };
+      }
+      return withSession(
+        state,
+        startSession(session.kind, session.taskId, session.plannedDuration, dueAt),
+        action.now,
+        true
+      );
+    }
+    case 'replace':
+      return action.state;
+    case 'clear':
+      return DEFAULT_TIMER_STATE;
+  }
+};
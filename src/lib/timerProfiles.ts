@@ -0,0 +1,157 @@
+import type { Task, TimerProfile, TimerProfileField, TimerProfileValues, TimerSettings } from '../types';
+import { NO_GOAL, parseFocusGoal } from './goals';
+
+export const DEFAULT_PROFILE_ID = 'task';
+
+// Built-in profiles. Users can tune the numbers of each one within its
+// limits; the names and limits themselves are fixed.
+export const TIMER_PROFILES: TimerProfile[] = [
+  {
+    id: 'task',
+    name: 'Per task',
+    focusMinutes: null,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    sessionsUntilLongBreak: 4,
+    limits: {
+      focusMinutes: { min: 5, max: 120, step: 5 },
+      shortBreakMinutes: { min: 1, max: 30, step: 1 },
+      longBreakMinutes: { min: 5, max: 60, step: 5 },
+      sessionsUntilLongBreak: { min: 2, max: 10, step: 1 }
+    }
+  },
+  {
+    id: 'classic',
+    name: 'Classic 25/5',
+    focusMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    sessionsUntilLongBreak: 4,
+    limits: {
+      focusMinutes: { min: 15, max: 45, step: 5 },
+      shortBreakMinutes: { min: 3, max: 10, step: 1 },
+      longBreakMinutes: { min: 10, max: 30, step: 5 },
+      sessionsUntilLongBreak: { min: 2, max: 8, step: 1 }
+    }
+  },
+  {
+    id: 'ultradian',
+    name: '52/17',
+    focusMinutes: 52,
+    shortBreakMinutes: 17,
+    longBreakMinutes: 30,
+    sessionsUntilLongBreak: 3,
+    limits: {
+      focusMinutes: { min: 40, max: 75, step: 1 },
+      shortBreakMinutes: { min: 10, max: 25, step: 1 },
+      longBreakMinutes: { min: 20, max: 60, step: 5 },
+      sessionsUntilLongBreak: { min: 2, max: 6, step: 1 }
+    }
+  },
+  {
+    id: 'deep',
+    name: 'Deep work 90',
+    focusMinutes: 90,
+    shortBreakMinutes: 20,
+    longBreakMinutes: 30,
+    sessionsUntilLongBreak: 2,
+    limits: {
+      focusMinutes: { min: 60, max: 120, step: 5 },
+      shortBreakMinutes: { min: 10, max: 30, step: 5 },
+      longBreakMinutes: { min: 20, max: 60, step: 5 },
+      sessionsUntilLongBreak: { min: 2, max: 4, step: 1 }
+    }
+  }
+];
+
+const getBuiltInProfile = (id: string) =>
+  TIMER_PROFILES.find(profile => profile.id === id) ?? TIMER_PROFILES[0];
+
+export const clampProfileValue = (profile: TimerProfile, field: TimerProfileField, value: number) => {
+  const { min, max } = profile.limits[field];
+  return Math.max(min, Math.min(max, Math.round(value) || min));
+};
+
+const toValues = (profile: TimerProfile): TimerProfileValues => ({
+  focusMinutes: profile.focusMinutes,
+  shortBreakMinutes: profile.shortBreakMinutes,
+  longBreakMinutes: profile.longBreakMinutes,
+  sessionsUntilLongBreak: profile.sessionsUntilLongBreak
+});
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  activeProfileId: DEFAULT_PROFILE_ID,
+  profiles: Object.fromEntries(TIMER_PROFILES.map(profile => [profile.id, toValues(profile)])),
+  // Breaks always started on their own before these options existed
+  autoStartBreaks: true,
+  autoStartFocus: false,
+  autoAdvanceTasks: false,
+  promptSessionNotes: true,
+  dailyGoal: NO_GOAL,
+  weeklyGoal: NO_GOAL,
+  dayStartHour: 0
+};
+
+// Read stored settings. Older versions only kept shortBreakTime,
+// longBreakTime and sessionsUntilLongBreak, which become the values of the
+// per-task profile that matches how the timer used to work.
+export const parseTimerSettings = (stored: Record<string, unknown> | null): TimerSettings => {
+  const settings: TimerSettings = {
+    ...DEFAULT_TIMER_SETTINGS,
+    profiles: { ...DEFAULT_TIMER_SETTINGS.profiles }
+  };
+  if (!stored) return settings;
+
+  (['autoStartBreaks', 'autoStartFocus', 'autoAdvanceTasks', 'promptSessionNotes'] as const).forEach(option => {
+    if (typeof stored[option] === 'boolean') settings[option] = stored[option] as boolean;
+  });
+
+  settings.dailyGoal = parseFocusGoal(stored.dailyGoal);
+  settings.weeklyGoal = parseFocusGoal(stored.weeklyGoal);
+  if (typeof stored.dayStartHour === 'number') {
+    settings.dayStartHour = Math.max(0, Math.min(23, Math.round(stored.dayStartHour) || 0));
+  }
+
+  if (typeof stored.activeProfileId === 'string' && TIMER_PROFILES.some(p => p.id === stored.activeProfileId)) {
+    settings.activeProfileId = stored.activeProfileId;
+  }
+
+  const storedProfiles = (stored.profiles ?? {}) as Record<string, Partial<TimerProfileValues>>;
+  const legacy: Partial<TimerProfileValues> = {
+    shortBreakMinutes: stored.shortBreakTime as number | undefined,
+    longBreakMinutes: stored.longBreakTime as number | undefined,
+    sessionsUntilLongBreak: stored.sessionsUntilLongBreak as number | undefined
+  };
+
+  TIMER_PROFILES.forEach(profile => {
+    const values = storedProfiles[profile.id] ?? (profile.id === DEFAULT_PROFILE_ID ? legacy : {});
+    const pick = (field: TimerProfileField) => {
+      const value = values[field];
+      return typeof value === 'number' ? clampProfileValue(profile, field, value) : profile[field];
+    };
+    settings.profiles[profile.id] = {
+      focusMinutes: profile.focusMinutes === null ? null : pick('focusMinutes'),
+      shortBreakMinutes: pick('shortBreakMinutes') as number,
+      longBreakMinutes: pick('longBreakMinutes') as number,
+      sessionsUntilLongBreak: pick('sessionsUntilLongBreak') as number
+    };
+  });
+
+  return settings;
+};
+
+// A built-in profile with the user's numbers applied
+export const getProfile = (settings: TimerSettings, id: string): TimerProfile => {
+  const profile = getBuiltInProfile(id);
+  return { ...profile, ...settings.profiles[profile.id] };
+};
+
+// The task's own profile if it has one, otherwise the active profile
+export const getEffectiveProfile = (settings: TimerSettings, task: Task | null) =>
+  getProfile(settings, task?.timerProfileId ?? settings.activeProfileId);
+
+export const getFocusMinutes = (profile: TimerProfile, task: Task | null) =>
+  profile.focusMinutes ?? task?.duration ?? 25;
+
+export const getBreakMinutes = (profile: TimerProfile, breakType: 'short' | 'long') =>
+  breakType === 'short' ? profile.shortBreakMinutes : profile.longBreakMinutes;
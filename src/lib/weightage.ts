@@ -0,0 +1,11 @@
+import type { Weightage } from '../types';
+
+export const getWeightageColor = (weightage: Weightage | string) => {
+  switch (weightage) {
+    case 'low': return 'bg-green-500/20 text-green-300 border-green-400/30';
+    case 'medium': return 'bg-yellow-500/20 text-yellow-300 border-yellow-400/30';
+    case 'high': return 'bg-orange-500/20 text-orange-300 border-orange-400/30';
+    case 'critical': return 'bg-red-500/20 text-red-300 border-red-400/30';
+    default: return 'bg-gray-500/20 text-gray-300 border-gray-400/30';
+  }
+};
@@ -1,10 +1,14 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { openStateStore } from './lib/storage';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+// Saved state is read before the first render so the app starts with it
+openStateStore().then(storage => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App storage={storage} />
+    </StrictMode>
+  );
+});
@@ -0,0 +1,128 @@
+export type Weightage = 'low' | 'medium' | 'high' | 'critical';
+
+export type TagColor = 'blue' | 'purple' | 'pink' | 'teal' | 'green' | 'amber' | 'rose' | 'slate';
+
+export interface TagDefinition {
+  name: string;
+  color: TagColor;
+}
+
+export interface Subtask {
+  id: string;
+  title: string;
+  done: boolean;
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  description?: string;
+  duration: number; // in minutes
+  completed: boolean;
+  completedAt?: number; // epoch ms, set while the task is archived
+  sessions: number;
+  estimatedPomodoros?: number; // planned number of sessions
+  weightage: Weightage;
+  tags: string[];
+  subtasks?: Subtask[]; // ordered checklist
+  timerProfileId?: string; // overrides the active timer profile for this task
+}
+
+export type SessionKind = 'focus' | 'short_break' | 'long_break';
+
+// How a session ended: ran to zero, was stopped (stop button or switching
+// task), or was thrown away with the reset button
+export type SessionOutcome = 'completed' | 'stopped' | 'reset';
+
+// What caused a pause: an internal distraction, an external interruption
+// or a meeting
+export type InterruptionType = 'internal' | 'external' | 'meeting';
+
+export interface PauseInterval {
+  start: number; // epoch ms
+  end?: number; // epoch ms, missing while the pause is still open
+  interruption?: InterruptionType;
+  note?: string;
+}
+
+// A session that is currently running or paused
+export interface ActiveSession {
+  id: string;
+  kind: SessionKind;
+  taskId: string | null;
+  startedAt: number; // epoch ms
+  plannedDuration: number; // in seconds
+  pauses: PauseInterval[];
+}
+
+// A finished session as stored in the history log
+export interface SessionRecord extends ActiveSession {
+  endedAt: number; // epoch ms
+  actualDuration: number; // in seconds, excluding pauses
+  outcome: SessionOutcome;
+  note?: string; // what got done, written when a focus session ends
+}
+
+export type TimerProfileField = 'focusMinutes' | 'shortBreakMinutes' | 'longBreakMinutes' | 'sessionsUntilLongBreak';
+
+// The user-adjustable numbers of a timer profile. A null focus length means
+// each task's own duration is used.
+export interface TimerProfileValues {
+  focusMinutes: number | null;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  sessionsUntilLongBreak: number;
+}
+
+export interface ValueRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface TimerProfile extends TimerProfileValues {
+  id: string;
+  name: string;
+  limits: Record<TimerProfileField, ValueRange>;
+}
+
+export type GoalUnit = 'sessions' | 'minutes';
+
+// A focus target for a day or a week. A target of 0 means no goal.
+export interface FocusGoal {
+  target: number;
+  unit: GoalUnit;
+}
+
+export interface TimerSettings {
+  activeProfileId: string;
+  profiles: Record<string, TimerProfileValues>;
+  autoStartBreaks: boolean;
+  autoStartFocus: boolean;
+  autoAdvanceTasks: boolean; // move on once a task reaches its estimate
+  promptSessionNotes: boolean;
+  dailyGoal: FocusGoal;
+  weeklyGoal: FocusGoal;
+  dayStartHour: number; // 0-23; days for counts, goals and streaks begin here
+}
+
+// An automatic step scheduled for when a session ends. It is shown as a
+// countdown first so the user can cancel it.
+export interface PendingTransition {
+  dueAt: number;
+  session: Pick<ActiveSession, 'kind' | 'taskId' | 'plannedDuration'> | null;
+  nextTaskId: string | null;
+}
+
+export type ChimePreset = 'classic' | 'bell' | 'marimba' | 'digital' | 'soft';
+
+// Background sound while focusing
+export type FocusLoop = 'none' | 'tick' | 'white' | 'brown';
+
+export interface SoundSettings {
+  chime: ChimePreset;
+  volume: number; // 0-100
+  muted: boolean;
+  focusLoop: FocusLoop;
+  warningMinutes: number; // chime this long before a focus session ends, 0 for never
+}
@@ -0,0 +1,65 @@
+-- Cloud sync storage. Every synced item (task, session, tag, settings) is one
+-- row holding its JSON, so the app can resolve conflicts record by record.
+--
+-- Local testing: `npx supabase init` once, then `npx supabase start` runs
+-- Postgres, auth and the REST API in Docker and applies this migration. Point VITE_SUPABASE_URL and
+-- VITE_SUPABASE_ANON_KEY at the values it prints (see .env.example).
+-- Sign-in links sent from a local stack show up in its mail viewer.
+
+create table if not exists public.sync_records (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  collection text not null check (collection in ('tasks', 'sessions', 'settings', 'tags')),
+  id text not null,
+  data jsonb,
+  -- When the record was last edited on a device, in epoch ms. The newest edit wins.
+  updated_at bigint not null,
+  deleted boolean not null default false,
+  -- When the server last stored the record. Devices pull everything newer
+  -- than the last value they saw.
+  synced_at timestamptz not null default clock_timestamp(),
+  primary key (user_id, collection, id)
+);
+
+create index if not exists sync_records_user_synced_at on public.sync_records (user_id, synced_at);
+
+alter table public.sync_records enable row level security;
+
+create policy "Users read their own records" on public.sync_records
+  for select using (auth.uid() = user_id);
+
+create policy "Users write their own records" on public.sync_records
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users update their own records" on public.sync_records
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create or replace function public.touch_sync_record()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.synced_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+create trigger sync_records_touch
+  before insert or update on public.sync_records
+  for each row execute function public.touch_sync_record();
+
+-- Store a batch of records. A record only replaces the stored one if it was
+-- edited later, so an older offline edit never overwrites a newer one.
+create or replace function public.sync_push(records jsonb)
+returns void
+language sql
+security invoker
+as $$
+  insert into public.sync_records (user_id, collection, id, data, updated_at, deleted)
+  select auth.uid(), r.collection, r.id, r.data, r.updated_at, r.deleted
+  from jsonb_to_recordset(records) as r (collection text, id text, data jsonb, updated_at bigint, deleted boolean)
+  on conflict (user_id, collection, id) do update
+    set data = excluded.data,
+        updated_at = excluded.updated_at,
+        deleted = excluded.deleted
+    where excluded.updated_at > public.sync_records.updated_at;
+$$;
@@ -1,9 +1,50 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes precache-manifest.js next to the service worker with every file of
+// the build, so public/sw.js can cache the app shell. The version changes
+// whenever any file changes, which makes browsers pick up the new service
+// worker and offer the update.
+const precacheManifest = (): Plugin => {
+  let publicDir = 'public';
+
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = readdirSync(publicDir).filter(file => file !== 'sw.js');
+      const files = [...Object.keys(bundle), ...publicFiles]
+        .filter(file => !file.endsWith('.map'))
+        .sort();
+
+      const hash = createHash('sha256');
+      files.forEach(file => {
+        const output = bundle[file];
+        hash.update(file);
+        if (!output) hash.update(readFileSync(join(publicDir, file)));
+        else hash.update(output.type === 'chunk' ? output.code : output.source);
+      });
+      const version = hash.digest('hex').slice(0, 12);
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, files })};\n`
+      });
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },